@@ -1,7 +1,9 @@
+// API and worker processes scale independently; both share the MongoDB job queue.
+// Use SERVICE_ROLE=all (the default) to run everything in one process instead.
 module.exports = {
     apps: [
         {
-            name: 'podcast-service',
+            name: 'podcast-api',
             script: 'index.ts',
             interpreter: 'bun',
             instances: 1, // Can be increased for clustering
@@ -10,20 +12,49 @@ module.exports = {
             max_memory_restart: '1G',
             env: {
                 NODE_ENV: 'development',
+                SERVICE_ROLE: 'api',
                 PORT: 3005,
             },
             env_production: {
                 NODE_ENV: 'production',
+                SERVICE_ROLE: 'api',
                 PORT: 3005,
             },
-            error_file: './logs/err.log',
-            out_file: './logs/out.log',
-            log_file: './logs/combined.log',
+            error_file: './logs/api-err.log',
+            out_file: './logs/api-out.log',
+            log_file: './logs/api-combined.log',
             time: true,
             autorestart: true,
             max_restarts: 10,
             min_uptime: '10s',
-            kill_timeout: 5000,
+            kill_timeout: 10000,
+        },
+        {
+            name: 'podcast-worker',
+            script: 'index.ts',
+            interpreter: 'bun',
+            instances: 1, // Each instance runs WORKER_CONCURRENCY jobs
+            exec_mode: 'fork',
+            watch: false,
+            max_memory_restart: '1G',
+            env: {
+                NODE_ENV: 'development',
+                SERVICE_ROLE: 'worker',
+                WORKER_HEALTH_PORT: 3006, // Instance N serves /health on 3006 + N
+            },
+            env_production: {
+                NODE_ENV: 'production',
+                SERVICE_ROLE: 'worker',
+                WORKER_HEALTH_PORT: 3006,
+            },
+            error_file: './logs/worker-err.log',
+            out_file: './logs/worker-out.log',
+            log_file: './logs/worker-combined.log',
+            time: true,
+            autorestart: true,
+            max_restarts: 10,
+            min_uptime: '10s',
+            kill_timeout: 50000, // Must exceed SHUTDOWN_GRACE_PERIOD_MS so active jobs can drain
         },
     ],
 };
@@ -1,8 +1,17 @@
 import express from 'express';
 import dotenv from 'dotenv';
 import podcastRoutes from './src/routes/podcast.js';
-import { connectDatabase } from './src/config/database.js';
-import { startJobProcessor } from './src/services/jobProcessor.js';
+import workerRoutes from './src/routes/worker.js';
+import webhookRoutes from './src/routes/webhooks.js';
+import adminRoutes from './src/routes/admin.js';
+import usageRoutes from './src/routes/usage.js';
+import { connectDatabase, disconnectDatabase } from './src/config/database.js';
+import { backfillTenants } from './src/services/tenantBackfill.js';
+import { startJobProcessor, stopClaimingJobs, stopJobProcessor } from './src/services/jobProcessor.js';
+import { startScheduler, stopScheduler } from './src/services/scheduler.js';
+import { startWebhookDispatcher, stopWebhookDispatcher } from './src/services/webhookDeliveries.js';
+import { shutdownManager } from './src/services/shutdown.js';
+import { getServiceRole, runsApi, runsWorker } from './src/config/role.js';
 
 // Load environment variables
 dotenv.config();
@@ -25,8 +34,24 @@ if (missingEnvVars.length > 0) {
     process.exit(1);
 }
 
+// api: HTTP only (enqueues jobs), worker: consumes the queue, all: both in one process
+let SERVICE_ROLE: ReturnType<typeof getServiceRole>;
+try {
+    SERVICE_ROLE = getServiceRole();
+} catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+}
+
 const app = express();
-const PORT = process.env.PORT || 3005;
+
+// Worker-only processes serve just a health check; pm2 instances get consecutive ports
+const PORT = runsApi(SERVICE_ROLE)
+    ? process.env.PORT || 3005
+    : parseInt(process.env.WORKER_HEALTH_PORT || '3006') + parseInt(process.env.NODE_APP_INSTANCE || '0');
+
+// Time interrupted sync generations get to record their failure before connections close
+const HTTP_ABORT_CLEANUP_MS = 5000;
 
 // Middleware
 app.use(express.json({ limit: '10mb' })); // Support large note content
@@ -34,8 +59,9 @@ app.use(express.json({ limit: '10mb' })); // Support large note content
 // CORS middleware
 app.use((req, res, next) => {
     res.header('Access-Control-Allow-Origin', '*');
-    res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.header('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Idempotency-Key');
+    res.header('Access-Control-Expose-Headers', 'RateLimit-Policy, RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, Retry-After');
 
     if (req.method === 'OPTIONS') {
         return res.sendStatus(200);
@@ -44,6 +70,20 @@ app.use((req, res, next) => {
     next();
 });
 
+// Refuse new work once shutdown has started (requests on kept-alive connections)
+app.use((req, res, next) => {
+    if (shutdownManager.isShuttingDown) {
+        res.header('Connection', 'close');
+        return res.status(503).json({
+            success: false,
+            error: 'Service unavailable',
+            message: 'Server is shutting down. Please retry.',
+        });
+    }
+
+    next();
+});
+
 // Request logging
 app.use((req, res, next) => {
     console.log(`${new Date().toISOString()} - ${req.method} ${req.path}`);
@@ -51,7 +91,14 @@ app.use((req, res, next) => {
 });
 
 // Routes
-app.use('/api/podcast', podcastRoutes);
+if (runsApi(SERVICE_ROLE)) {
+    app.use('/api/podcast', podcastRoutes);
+    app.use('/api/webhooks', webhookRoutes);
+    app.use('/api/usage', usageRoutes);
+    app.use('/api/admin', adminRoutes);
+} else {
+    app.use(workerRoutes);
+}
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -59,10 +106,15 @@ app.get('/', (req, res) => {
         service: 'Podcast Microservice',
         version: '1.0.0',
         status: 'running',
-        endpoints: {
-            generate: 'POST /api/podcast/generate',
-            health: 'GET /api/podcast/health',
-        },
+        role: SERVICE_ROLE,
+        endpoints: runsApi(SERVICE_ROLE)
+            ? {
+                generate: 'POST /api/podcast/generate',
+                health: 'GET /api/podcast/health',
+            }
+            : {
+                health: 'GET /health',
+            },
     });
 });
 
@@ -77,10 +129,11 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
 });
 
 // Start server
-app.listen(PORT, async () => {
+const server = app.listen(PORT, async () => {
     console.log('\n🎙️  Podcast Microservice');
     console.log('========================');
     console.log(`✓ Server running on port ${PORT}`);
+    console.log(`✓ Role: ${SERVICE_ROLE}`);
     console.log(`✓ Environment: ${process.env.NODE_ENV || 'development'}`);
 
     // Connect to MongoDB
@@ -90,22 +143,90 @@ app.listen(PORT, async () => {
         console.error('Failed to connect to MongoDB. Server will continue but database features will not work.');
     }
 
-    // Start job processor for async generation
-    startJobProcessor();
+    // Give records from before tenants an owner, so they don't disappear from the API
+    await backfillTenants().catch(error => console.error('Failed to backfill tenants:', error));
+
+    if (runsWorker(SERVICE_ROLE)) {
+        // Start job processor for async generation
+        await startJobProcessor();
+
+        // Enqueue scheduled and recurring generations when they are due
+        startScheduler();
+
+        // Retry webhook deliveries that failed
+        startWebhookDispatcher();
+    }
 
     console.log(`✓ OpenAI: Configured`);
     console.log(`✓ Unreal Speech: Configured`);
     console.log(`✓ AWS S3: ${process.env.S3_BUCKET_NAME}`);
+
+    if (!runsApi(SERVICE_ROLE)) {
+        console.log(`\nHealth: GET http://localhost:${PORT}/health`);
+        console.log('\nWorker ready to process jobs! 🚀\n');
+        return;
+    }
+
     console.log('\nEndpoints:');
-    console.log(`  POST http://localhost:${PORT}/api/podcast/generate (sync)`);
+    if (runsWorker(SERVICE_ROLE)) {
+        console.log(`  POST http://localhost:${PORT}/api/podcast/generate (sync)`);
+    }
     console.log(`  POST http://localhost:${PORT}/api/podcast/generate/async (async)`);
+    console.log(`  POST http://localhost:${PORT}/api/podcast/batches`);
+    console.log(`  GET  http://localhost:${PORT}/api/podcast/batches/:batchId`);
+    console.log(`  POST http://localhost:${PORT}/api/podcast/schedules`);
+    console.log(`  GET  http://localhost:${PORT}/api/podcast/schedules`);
+    console.log(`  POST http://localhost:${PORT}/api/podcast/schedules/:scheduleId/pause`);
+    console.log(`  POST http://localhost:${PORT}/api/podcast/schedules/:scheduleId/resume`);
+    console.log(`  DELETE http://localhost:${PORT}/api/podcast/schedules/:scheduleId`);
     console.log(`  GET  http://localhost:${PORT}/api/podcast/jobs/:jobId`);
+    console.log(`  GET  http://localhost:${PORT}/api/podcast/jobs/:jobId/events (SSE)`);
+    console.log(`  DELETE http://localhost:${PORT}/api/podcast/jobs/:jobId (cancel)`);
+    console.log(`  POST http://localhost:${PORT}/api/podcast/jobs/:jobId/retry`);
     console.log(`  GET  http://localhost:${PORT}/api/podcast/jobs/user/:userId`);
     console.log(`  GET  http://localhost:${PORT}/api/podcast/:id`);
     console.log(`  GET  http://localhost:${PORT}/api/podcast/user/:userId`);
     console.log(`  GET  http://localhost:${PORT}/api/podcast/note/:noteId`);
     console.log(`  DELETE http://localhost:${PORT}/api/podcast/:id`);
     console.log(`  GET  http://localhost:${PORT}/api/podcast/health`);
+    console.log(`  POST http://localhost:${PORT}/api/webhooks/endpoints`);
+    console.log(`  GET  http://localhost:${PORT}/api/webhooks/endpoints`);
+    console.log(`  PATCH http://localhost:${PORT}/api/webhooks/endpoints/:endpointId`);
+    console.log(`  POST http://localhost:${PORT}/api/webhooks/endpoints/:endpointId/rotate-secret`);
+    console.log(`  DELETE http://localhost:${PORT}/api/webhooks/endpoints/:endpointId`);
+    console.log(`  GET  http://localhost:${PORT}/api/webhooks/deliveries`);
+    console.log(`  GET  http://localhost:${PORT}/api/webhooks/deliveries/:deliveryId`);
+    console.log(`  POST http://localhost:${PORT}/api/webhooks/deliveries/:deliveryId/redeliver`);
+    console.log(`  GET  http://localhost:${PORT}/api/usage`);
+    console.log(`  POST http://localhost:${PORT}/api/admin/keys (admin)`);
+    console.log(`  GET  http://localhost:${PORT}/api/admin/keys (admin)`);
+    console.log(`  POST http://localhost:${PORT}/api/admin/keys/:keyId/revoke (admin)`);
+    console.log(`  POST http://localhost:${PORT}/api/admin/keys/:keyId/rotate (admin)`);
+    console.log(`  GET  http://localhost:${PORT}/api/admin/queue (admin)`);
+    console.log(`  GET  http://localhost:${PORT}/api/admin/jobs (admin)`);
+    console.log(`  GET  http://localhost:${PORT}/api/admin/failures (admin)`);
+    console.log(`  GET  http://localhost:${PORT}/api/admin/providers (admin)`);
     console.log('\nReady to generate podcasts! 🚀\n');
 });
 
+// Graceful shutdown: stop taking work, let in-flight requests and active jobs finish
+// within one shared grace period, then interrupt and requeue the rest
+shutdownManager.register('job claiming', stopClaimingJobs);
+shutdownManager.register('http server', async () => {
+    const closed = new Promise<void>(resolve => server.close(() => resolve()));
+    server.closeIdleConnections();
+
+    // Sync generations still running when the grace period ends are interrupted, and
+    // get a little longer to record their failure and refund before connections are cut
+    const timeout = new Promise<void>(resolve => {
+        setTimeout(resolve, shutdownManager.remainingGracePeriodMs + HTTP_ABORT_CLEANUP_MS).unref();
+    });
+    await Promise.race([closed, timeout]);
+});
+shutdownManager.register('scheduler', stopScheduler);
+shutdownManager.register('webhook dispatcher', stopWebhookDispatcher);
+shutdownManager.register('job processor', () => stopJobProcessor(shutdownManager.remainingGracePeriodMs));
+// Ends event streams and requests still open after the grace period
+shutdownManager.register('open connections', () => server.closeAllConnections());
+shutdownManager.register('database', disconnectDatabase);
+shutdownManager.listen();
@@ -46,6 +46,10 @@ export async function connectDatabase(): Promise<void> {
     }
 }
 
+export function isDatabaseConnected(): boolean {
+    return isConnected;
+}
+
 export async function disconnectDatabase(): Promise<void> {
     if (!isConnected) {
         return;
@@ -60,14 +64,3 @@ export async function disconnectDatabase(): Promise<void> {
         throw error;
     }
 }
-
-// Graceful shutdown
-process.on('SIGINT', async () => {
-    await disconnectDatabase();
-    process.exit(0);
-});
-
-process.on('SIGTERM', async () => {
-    await disconnectDatabase();
-    process.exit(0);
-});
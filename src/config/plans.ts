@@ -0,0 +1,91 @@
+import type { PlanConfig, PlanName } from '../types/index.js';
+import type { JobPriority } from '../types/jobs.js';
+
+// Plan limits, matching the tiers in PRICING.md
+export const PLANS: Record<PlanName, PlanConfig> = {
+    hacker: {
+        name: 'hacker',
+        maxConcurrentJobs: 1,
+        priority: 'normal',
+        monthlyCredits: 3,
+        allowOverage: false,
+        rateLimits: {
+            generate: { limit: 5, windowSeconds: 60 },
+            read: { limit: 60, windowSeconds: 60 },
+        },
+        maxTargetMinutes: 10,
+    },
+    indie: {
+        name: 'indie',
+        maxConcurrentJobs: 3,
+        priority: 'normal',
+        monthlyCredits: 90,
+        allowOverage: true,
+        rateLimits: {
+            generate: { limit: 20, windowSeconds: 60 },
+            read: { limit: 300, windowSeconds: 60 },
+        },
+        maxTargetMinutes: 20,
+    },
+    startup: {
+        name: 'startup',
+        maxConcurrentJobs: 10,
+        priority: 'normal',
+        monthlyCredits: 200,
+        allowOverage: true,
+        rateLimits: {
+            generate: { limit: 60, windowSeconds: 60 },
+            read: { limit: 600, windowSeconds: 60 },
+        },
+        maxTargetMinutes: 30,
+    },
+    scale: {
+        name: 'scale',
+        maxConcurrentJobs: 20,
+        priority: 'high',
+        monthlyCredits: 1000,
+        allowOverage: true,
+        rateLimits: {
+            generate: { limit: 120, windowSeconds: 60 },
+            read: { limit: 1200, windowSeconds: 60 },
+        },
+        maxTargetMinutes: 60,
+    },
+};
+
+// Minutes of requested length one generation credit pays for (see "Generation Credits"
+// in PRICING.md), so the short (4 minute) preset costs 1 credit and long (9 minute) 2
+export const MINUTES_PER_CREDIT = 5;
+
+// Generation credits charged for a podcast of the requested length
+export function getGenerationCredits(targetMinutes: number): number {
+    return Math.max(1, Math.ceil(targetMinutes / MINUTES_PER_CREDIT));
+}
+
+// Relative weight of each priority lane
+export const PRIORITY_WEIGHTS: Record<JobPriority, number> = {
+    low: 0,
+    normal: 1,
+    high: 2,
+};
+
+// Plan used for API keys that don't have one assigned
+export const DEFAULT_PLAN: PlanName = isPlanName(process.env.DEFAULT_API_KEY_PLAN)
+    ? process.env.DEFAULT_API_KEY_PLAN
+    : 'hacker';
+
+export function isPlanName(value: unknown): value is PlanName {
+    return typeof value === 'string' && Object.hasOwn(PLANS, value);
+}
+
+export function getPlan(name: PlanName): PlanConfig {
+    return PLANS[name];
+}
+
+// Use the requested priority, but never above the plan's highest lane
+export function resolvePriority(plan: PlanConfig, requested?: JobPriority): JobPriority {
+    if (!requested || PRIORITY_WEIGHTS[requested] > PRIORITY_WEIGHTS[plan.priority]) {
+        return plan.priority;
+    }
+    return requested;
+}
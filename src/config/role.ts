@@ -0,0 +1,24 @@
+import type { ServiceRole } from '../types/index.js';
+
+const SERVICE_ROLES: ServiceRole[] = ['api', 'worker', 'all'];
+
+// Read SERVICE_ROLE (default 'all'); throws on unknown values so a typo doesn't start the wrong role
+export function getServiceRole(): ServiceRole {
+    const role = process.env.SERVICE_ROLE?.trim() || 'all';
+
+    if (!SERVICE_ROLES.includes(role as ServiceRole)) {
+        throw new Error(`Invalid SERVICE_ROLE "${role}". Expected one of: ${SERVICE_ROLES.join(', ')}`);
+    }
+
+    return role as ServiceRole;
+}
+
+// API instances serve HTTP and only enqueue jobs
+export function runsApi(role: ServiceRole): boolean {
+    return role !== 'worker';
+}
+
+// Worker instances consume the queue and run the scheduler
+export function runsWorker(role: ServiceRole): boolean {
+    return role !== 'api';
+}
@@ -1,6 +1,118 @@
 import type { Request, Response, NextFunction } from 'express';
+import type { ApiKeyScope, PlanName } from '../types/index.js';
+import { DEFAULT_PLAN, isPlanName } from '../config/plans.js';
+import { apiKeyStore, hashApiKey, digestsEqual } from '../services/apiKeyStore.js';
 
-export function apiKeyAuth(req: Request, res: Response, next: NextFunction) {
+// Authenticated caller, attached to the request by apiKeyAuth
+export interface ApiKeyContext {
+    keyId: string; // Stable, non-secret identifier for the key
+    tenantId: string;
+    plan: PlanName;
+    scopes: ApiKeyScope[];
+}
+
+// Scopes of keys configured through API_KEYS and ADMIN_API_KEYS
+const ENV_KEY_SCOPES: ApiKeyScope[] = ['podcasts:read', 'podcasts:write'];
+const ENV_ADMIN_KEY_SCOPES: ApiKeyScope[] = ['admin'];
+
+const REJECTION_MESSAGES = {
+    unknown: 'Invalid API key.',
+    revoked: 'API key has been revoked.',
+    expired: 'API key has expired.',
+};
+
+declare global {
+    namespace Express {
+        interface Request {
+            apiKey?: ApiKeyContext;
+        }
+    }
+}
+
+// Derive a non-reversible identifier so raw keys are never stored on jobs
+function getKeyId(apiKey: string): string {
+    return `key_${hashApiKey(apiKey).slice(0, 12)}`;
+}
+
+// Whether a key is in a comma-separated env list, compared in constant time
+function isListedKey(apiKey: string, list: string | undefined): boolean {
+    const keyHash = hashApiKey(apiKey);
+    let listed = false;
+
+    // Check every entry so the time taken doesn't depend on which one matched
+    for (const entry of list?.split(',') || []) {
+        if (entry.trim() && digestsEqual(hashApiKey(entry.trim()), keyHash)) {
+            listed = true;
+        }
+    }
+
+    return listed;
+}
+
+// Parse API_KEY_PLANS ("key1:indie,key2:scale") into a key -> plan map
+function getKeyPlans(): Map<string, PlanName> {
+    const plans = new Map<string, PlanName>();
+
+    for (const entry of process.env.API_KEY_PLANS?.split(',') || []) {
+        const separator = entry.lastIndexOf(':');
+        const key = entry.slice(0, separator).trim();
+        const plan = entry.slice(separator + 1).trim();
+
+        if (separator > 0 && isPlanName(plan)) {
+            plans.set(key, plan);
+        }
+    }
+
+    return plans;
+}
+
+// Caller context for keys configured through the environment. These predate
+// stored keys and keep working; each key is its own tenant.
+function getEnvKeyContext(apiKey: string): ApiKeyContext | null {
+    const keyId = getKeyId(apiKey);
+
+    if (isListedKey(apiKey, process.env.ADMIN_API_KEYS)) {
+        return { keyId, tenantId: keyId, plan: DEFAULT_PLAN, scopes: ENV_ADMIN_KEY_SCOPES };
+    }
+
+    if (isListedKey(apiKey, process.env.API_KEYS)) {
+        return { keyId, tenantId: keyId, plan: getKeyPlans().get(apiKey) || DEFAULT_PLAN, scopes: ENV_KEY_SCOPES };
+    }
+
+    return null;
+}
+
+// Caller context for a keyId, for work done later on a key's behalf (e.g. scheduled
+// runs). Reflects the key as it is now: its current plan, or why it no longer works.
+// Keys removed from the environment count as unknown.
+export async function getKeyContextById(keyId: string): Promise<
+    { valid: true; apiKey: ApiKeyContext } | { valid: false; reason: keyof typeof REJECTION_MESSAGES }
+> {
+    const listedKeys = [process.env.ADMIN_API_KEYS, process.env.API_KEYS]
+        .flatMap(list => list?.split(',') || [])
+        .map(entry => entry.trim())
+        .filter(Boolean);
+    const envKey = listedKeys.find(entry => getKeyId(entry) === keyId);
+    if (envKey) {
+        return { valid: true, apiKey: getEnvKeyContext(envKey)! };
+    }
+
+    const stored = await apiKeyStore.getKey(keyId);
+    if (!stored) {
+        return { valid: false, reason: 'unknown' };
+    }
+    if (stored.revokedAt) {
+        return { valid: false, reason: 'revoked' };
+    }
+    if (stored.expiresAt && stored.expiresAt <= new Date()) {
+        return { valid: false, reason: 'expired' };
+    }
+
+    const { tenantId, plan, scopes } = stored;
+    return { valid: true, apiKey: { keyId, tenantId, plan, scopes: scopes.filter(scope => scope !== 'admin') } };
+}
+
+export async function apiKeyAuth(req: Request, res: Response, next: NextFunction) {
     // Get API key from header
     const apiKey = req.headers['x-api-key'] as string;
 
@@ -13,18 +125,57 @@ export function apiKeyAuth(req: Request, res: Response, next: NextFunction) {
         });
     }
 
-    // Get allowed API keys from environment
-    const allowedKeys = process.env.API_KEYS?.split(',').map(key => key.trim()) || [];
+    // Keys configured through the environment don't need the database
+    const envContext = getEnvKeyContext(apiKey);
+    if (envContext) {
+        req.apiKey = envContext;
+        return next();
+    }
+
+    let result;
+    try {
+        result = await apiKeyStore.authenticate(apiKey);
+    } catch (error) {
+        console.error('API key lookup failed:', error);
+        return res.status(503).json({
+            success: false,
+            error: 'Service unavailable',
+            message: 'API keys cannot be checked right now. Please retry.',
+        });
+    }
 
-    // Check if the provided key is valid
-    if (!allowedKeys.includes(apiKey)) {
+    if (!result.valid) {
         return res.status(401).json({
             success: false,
             error: 'Unauthorized',
-            message: 'Invalid API key.',
+            message: REJECTION_MESSAGES[result.reason],
         });
     }
 
-    // API key is valid, continue
+    // API key is valid, attach caller context and continue. Stored keys belong to one
+    // tenant, so they never get the cross-tenant admin scope (older keys may list it).
+    const { keyId, tenantId, plan, scopes } = result.apiKey;
+    req.apiKey = { keyId, tenantId, plan, scopes: scopes.filter(scope => scope !== 'admin') };
+
     next();
 }
+
+// Whether the caller may use a scope ('admin' grants all of them)
+export function hasScope(apiKey: ApiKeyContext | undefined, scope: ApiKeyScope): boolean {
+    return apiKey !== undefined && (apiKey.scopes.includes(scope) || apiKey.scopes.includes('admin'));
+}
+
+// Reject callers whose key lacks a scope. Must run after apiKeyAuth.
+export function requireScope(scope: ApiKeyScope) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (!hasScope(req.apiKey, scope)) {
+            return res.status(403).json({
+                success: false,
+                error: 'Forbidden',
+                message: `This API key does not have the ${scope} scope.`,
+            });
+        }
+
+        next();
+    };
+}
@@ -0,0 +1,97 @@
+import { createHash } from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { idempotencyStore } from '../services/idempotencyStore.js';
+
+const MAX_KEY_LENGTH = 255;
+
+// Client errors that repeating the same request would get again. Others, such as
+// 402 (out of credits), 409 or 429, may succeed on retry, so they release the key.
+const REPLAYABLE_CLIENT_ERRORS = new Set([400, 404, 422]);
+
+function isReplayable(statusCode: number): boolean {
+    return (statusCode >= 200 && statusCode < 300) || REPLAYABLE_CLIENT_ERRORS.has(statusCode);
+}
+
+// JSON with sorted object keys, so the same body always hashes the same way
+export function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+// Fingerprint of a request: its method, route and canonical body
+export function getRequestHash(req: Pick<Request, 'method' | 'baseUrl' | 'path' | 'body'>): string {
+    return createHash('sha256')
+        .update(`${req.method} ${req.baseUrl}${req.path}\n${canonicalJson(req.body)}`)
+        .digest('hex');
+}
+
+// Replays the original response for a repeated Idempotency-Key. Must run after apiKeyAuth.
+export async function idempotency(req: Request, res: Response, next: NextFunction) {
+    const key = req.header('Idempotency-Key');
+    if (!key) {
+        return next();
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+        return res.status(400).json({
+            success: false,
+            error: 'Invalid Idempotency-Key',
+            message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters.`,
+        });
+    }
+
+    const apiKeyId = req.apiKey!.keyId;
+    const requestHash = getRequestHash(req);
+
+    try {
+        const result = await idempotencyStore.begin(apiKeyId, key, requestHash);
+
+        if (result.outcome === 'mismatch') {
+            return res.status(409).json({
+                success: false,
+                error: 'Idempotency key reused',
+                message: 'This Idempotency-Key was already used with a different request.',
+            });
+        }
+
+        if (result.outcome === 'in_progress') {
+            return res.status(409).json({
+                success: false,
+                error: 'Request in progress',
+                message: 'A request with this Idempotency-Key is still being processed. Retry later.',
+            });
+        }
+
+        if (result.outcome === 'replay') {
+            res.setHeader('Idempotent-Replayed', 'true');
+            return res.status(result.statusCode).json(result.responseBody);
+        }
+    } catch (error) {
+        console.error('Idempotency check failed:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to check idempotency key',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+
+    // Record the response; any other outcome releases the key so the request can be retried
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+        const saved = isReplayable(res.statusCode)
+            ? idempotencyStore.complete(apiKeyId, key, res.statusCode, body)
+            : idempotencyStore.release(apiKeyId, key);
+        saved.catch(error => console.error('Failed to save idempotency key:', error));
+        return json(body);
+    };
+
+    next();
+}
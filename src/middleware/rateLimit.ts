@@ -0,0 +1,43 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { RateLimitBucket } from '../types/index.js';
+import { getPlan } from '../config/plans.js';
+import { getRateLimitStore, getRefillRate } from '../services/rateLimitStore.js';
+
+// Token-bucket limit per API key and bucket, sized by the key's plan. Sets the
+// RateLimit-* headers on every authenticated response and rejects with 429 when the
+// bucket is empty. Must run after apiKeyAuth and before requireScope, so requests
+// rejected for a missing scope still count and carry the headers.
+export function rateLimit(bucket: RateLimitBucket) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        const apiKey = req.apiKey!;
+        const config = getPlan(apiKey.plan).rateLimits[bucket];
+
+        let state;
+        try {
+            state = await getRateLimitStore().take(`${bucket}:${apiKey.keyId}`, config, Date.now());
+        } catch (error) {
+            // Don't turn a store outage into an API outage
+            console.error('Rate limit store error, allowing request:', error);
+            return next();
+        }
+
+        const rate = getRefillRate(config);
+        res.setHeader('RateLimit-Policy', `${config.limit};w=${config.windowSeconds}`);
+        res.setHeader('RateLimit-Limit', config.limit);
+        res.setHeader('RateLimit-Remaining', Math.floor(state.tokens));
+        // Seconds until the bucket is full again
+        res.setHeader('RateLimit-Reset', Math.ceil((config.limit - state.tokens) / rate / 1000));
+
+        if (!state.allowed) {
+            const retryAfter = Math.max(1, Math.ceil((1 - state.tokens) / rate / 1000));
+            res.setHeader('Retry-After', retryAfter);
+            return res.status(429).json({
+                success: false,
+                error: 'Too many requests',
+                message: `Rate limit of ${config.limit} ${bucket} requests per ${config.windowSeconds}s exceeded. Retry in ${retryAfter}s.`,
+            });
+        }
+
+        next();
+    };
+}
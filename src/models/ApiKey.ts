@@ -0,0 +1,81 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { ApiKeyScope, PlanName } from '../types/index.js';
+
+export interface IApiKey extends Document {
+    keyId: string;
+    tenantId: string;
+    name: string;
+    prefix: string;
+    keyHash: string;
+    previousKeyHash?: string;
+    previousKeyExpiresAt?: Date;
+    plan: PlanName;
+    scopes: ApiKeyScope[];
+    expiresAt?: Date;
+    lastUsedAt?: Date;
+    revokedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const apiKeySchema = new Schema<IApiKey>({
+    keyId: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    tenantId: {
+        type: String,
+        required: true,
+        index: true,
+    },
+    name: {
+        type: String,
+        required: true,
+    },
+    prefix: {
+        type: String,
+        required: true,
+    },
+    // SHA-256 of the key; the key itself is never stored
+    keyHash: {
+        type: String,
+        required: true,
+        unique: true,
+        select: false,
+    },
+    // Hash of the key replaced by the last rotation, accepted until previousKeyExpiresAt
+    previousKeyHash: {
+        type: String,
+        select: false,
+    },
+    previousKeyExpiresAt: {
+        type: Date,
+    },
+    plan: {
+        type: String,
+        enum: ['hacker', 'indie', 'startup', 'scale'],
+        required: true,
+    },
+    scopes: {
+        type: [String],
+        enum: ['podcasts:read', 'podcasts:write', 'admin'],
+        required: true,
+    },
+    expiresAt: {
+        type: Date,
+    },
+    lastUsedAt: {
+        type: Date,
+    },
+    revokedAt: {
+        type: Date,
+    },
+}, {
+    timestamps: true,
+});
+
+// Index for authenticating with a key during its rotation grace period
+apiKeySchema.index({ previousKeyHash: 1 }, { sparse: true });
+
+export const ApiKey = mongoose.model<IApiKey>('ApiKey', apiKeySchema);
@@ -0,0 +1,74 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { BatchStatus, BatchItem } from '../types/jobs.js';
+
+export interface IBatch extends Document {
+    batchId: string;
+    apiKeyId?: string;
+    tenantId?: string;
+    status: BatchStatus;
+    items: BatchItem[];
+    createdAt: Date;
+    completedAt?: Date;
+}
+
+const batchItemSchema = new Schema({
+    index: {
+        type: Number,
+        required: true,
+    },
+    noteId: {
+        type: String,
+        required: true,
+    },
+    userId: {
+        type: String,
+        required: true,
+    },
+    // Set for items that created a job
+    jobId: {
+        type: String,
+    },
+    // Set for items answered by an existing podcast (reuse: "if-identical")
+    reusedPodcastId: {
+        type: String,
+    },
+    // Set for items whose job could not be created
+    error: {
+        type: String,
+    },
+}, { _id: false });
+
+const batchSchema = new Schema<IBatch>({
+    batchId: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    apiKeyId: {
+        type: String,
+    },
+    tenantId: {
+        type: String,
+    },
+    status: {
+        type: String,
+        enum: ['creating', 'processing', 'completed'],
+        default: 'creating',
+        required: true,
+    },
+    items: {
+        type: [batchItemSchema],
+        default: [],
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now,
+    },
+    completedAt: {
+        type: Date,
+    },
+});
+
+batchSchema.index({ tenantId: 1, createdAt: -1 });
+
+export const Batch = mongoose.model<IBatch>('Batch', batchSchema);
@@ -0,0 +1,88 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { CreditEntryType, PodcastDuration } from '../types/index.js';
+
+export interface ICreditLedgerEntry extends Document {
+    entryId: string;
+    tenantId: string;
+    apiKeyId?: string;
+    type: CreditEntryType;
+    credits: number;
+    duration: PodcastDuration;
+    targetMinutes?: number;
+    period: string;
+    overageCredits?: number;
+    noteId: string;
+    jobId?: string;
+    refundOf?: string;
+    reason?: string;
+    createdAt: Date;
+}
+
+const creditLedgerEntrySchema = new Schema<ICreditLedgerEntry>({
+    entryId: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    tenantId: {
+        type: String,
+        required: true,
+    },
+    // Key that made the request
+    apiKeyId: {
+        type: String,
+    },
+    type: {
+        type: String,
+        enum: ['debit', 'refund'],
+        required: true,
+    },
+    credits: {
+        type: Number,
+        required: true,
+        min: 0,
+    },
+    duration: {
+        type: String,
+        enum: ['short', 'long', 'custom'],
+        required: true,
+    },
+    // Requested length; unset on records created before custom lengths
+    targetMinutes: {
+        type: Number,
+    },
+    // Billing month (YYYY-MM, UTC); refunds use the period of the debit they reverse
+    period: {
+        type: String,
+        required: true,
+    },
+    // Credits of a debit beyond the plan's allowance, billed as overage
+    overageCredits: {
+        type: Number,
+    },
+    noteId: {
+        type: String,
+        required: true,
+    },
+    jobId: {
+        type: String,
+    },
+    // Debit a refund reverses; unique so a debit is never refunded twice
+    refundOf: {
+        type: String,
+        unique: true,
+        sparse: true,
+    },
+    reason: {
+        type: String,
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now,
+    },
+});
+
+// Index for summarising a tenant's usage per period
+creditLedgerEntrySchema.index({ tenantId: 1, period: 1, type: 1 });
+
+export const CreditLedgerEntry = mongoose.model<ICreditLedgerEntry>('CreditLedgerEntry', creditLedgerEntrySchema);
@@ -0,0 +1,35 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ICreditUsage extends Document {
+    tenantId: string;
+    period: string;
+    used: number;
+    updatedAt: Date;
+}
+
+// Running total of a tenant's net credits per billing period. Debits check the
+// allowance against it with a single conditional update, so concurrent requests
+// can't overspend.
+const creditUsageSchema = new Schema<ICreditUsage>({
+    tenantId: {
+        type: String,
+        required: true,
+    },
+    // Billing month (YYYY-MM, UTC)
+    period: {
+        type: String,
+        required: true,
+    },
+    used: {
+        type: Number,
+        default: 0,
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now,
+    },
+});
+
+creditUsageSchema.index({ tenantId: 1, period: 1 }, { unique: true });
+
+export const CreditUsage = mongoose.model<ICreditUsage>('CreditUsage', creditUsageSchema);
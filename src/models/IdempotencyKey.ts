@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IIdempotencyKey extends Document {
+    apiKeyId: string;
+    key: string;
+    requestHash: string;
+    // Stored once the original request finishes; absent while it is in progress
+    statusCode?: number;
+    responseBody?: unknown;
+    createdAt: Date;
+    expiresAt: Date;
+}
+
+const idempotencyKeySchema = new Schema<IIdempotencyKey>({
+    apiKeyId: {
+        type: String,
+        required: true,
+    },
+    key: {
+        type: String,
+        required: true,
+    },
+    requestHash: {
+        type: String,
+        required: true,
+    },
+    statusCode: {
+        type: Number,
+    },
+    responseBody: {
+        type: Schema.Types.Mixed,
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now,
+    },
+    expiresAt: {
+        type: Date,
+        required: true,
+    },
+});
+
+// Keys are scoped per API key and removed by MongoDB once expired
+idempotencyKeySchema.index({ apiKeyId: 1, key: 1 }, { unique: true });
+idempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const IdempotencyKey = mongoose.model<IIdempotencyKey>('IdempotencyKey', idempotencyKeySchema);
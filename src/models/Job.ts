@@ -0,0 +1,217 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { PlanName, PodcastDuration, PodcastErrorCode, PodcastStyle } from '../types/index.js';
+import type { JobStatus, JobPriority, JobStage, JobCheckpoint, JobStageTiming } from '../types/jobs.js';
+import { podcastStyleSchema } from './Podcast.js';
+
+export interface IJob extends Document {
+    jobId: string;
+    status: JobStatus;
+    progress: number;
+    currentStep?: string;
+    noteId: string;
+    noteContent: string;
+    userId: string;
+    duration: PodcastDuration;
+    targetMinutes?: number;
+    style?: PodcastStyle;
+    apiKeyId?: string;
+    tenantId?: string;
+    concurrencyLimit?: number;
+    plan?: PlanName;
+    creditEntryId?: string;
+    priority?: JobPriority;
+    dispatchAt?: Date;
+    podcastId?: string;
+    callbackUrl?: string;
+    audioUrl?: string;
+    audioDuration?: number;
+    transcript?: any[];
+    error?: string;
+    errorCode?: PodcastErrorCode;
+    failedStage?: JobStage;
+    checkpoint?: JobCheckpoint;
+    stageTimings?: Partial<Record<JobStage, JobStageTiming>>;
+    batchId?: string;
+    scheduleId?: string;
+    scheduledFor?: Date;
+    workerId?: string;
+    heartbeatAt?: Date;
+    cancelRequestedAt?: Date;
+    eventSeq: number;
+    createdAt: Date;
+    startedAt?: Date;
+    completedAt?: Date;
+}
+
+const jobSchema = new Schema<IJob>({
+    jobId: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    status: {
+        type: String,
+        enum: ['queued', 'processing', 'completed', 'failed', 'cancelled'],
+        default: 'queued',
+        required: true,
+        index: true,
+    },
+    progress: {
+        type: Number,
+        default: 0,
+    },
+    currentStep: {
+        type: String,
+    },
+    noteId: {
+        type: String,
+        required: true,
+    },
+    noteContent: {
+        type: String,
+        required: true,
+    },
+    userId: {
+        type: String,
+        required: true,
+        index: true,
+    },
+    duration: {
+        type: String,
+        enum: ['short', 'long', 'custom'],
+        required: true,
+    },
+    // Requested length; unset on records created before custom lengths
+    targetMinutes: {
+        type: Number,
+    },
+    // Personas, tone and audience for the script
+    style: {
+        type: podcastStyleSchema,
+    },
+    // Caller that created the job and its plan's concurrent job limit
+    apiKeyId: {
+        type: String,
+    },
+    // Tenant of that caller; reads are limited to it
+    tenantId: {
+        type: String,
+    },
+    concurrencyLimit: {
+        type: Number,
+    },
+    // Plan the job is charged under
+    plan: {
+        type: String,
+        enum: ['hacker', 'indie', 'startup', 'scale'],
+    },
+    // Credit debit for the job; refunded when the job fails or is cancelled
+    creditEntryId: {
+        type: String,
+    },
+    priority: {
+        type: String,
+        enum: ['low', 'normal', 'high'],
+        default: 'normal',
+    },
+    // Sort key for dispatch: createdAt shifted earlier by the priority lane
+    dispatchAt: {
+        type: Date,
+    },
+    // Podcast record created together with the job
+    podcastId: {
+        type: String,
+    },
+    // Per-request webhook destination
+    callbackUrl: {
+        type: String,
+    },
+    audioUrl: {
+        type: String,
+    },
+    audioDuration: {
+        type: Number,
+    },
+    transcript: {
+        type: [Schema.Types.Mixed],
+        default: undefined,
+    },
+    error: {
+        type: String,
+    },
+    errorCode: {
+        type: String,
+        enum: [
+            'script_generation_failed',
+            'audio_generation_failed',
+            'audio_combine_failed',
+            'upload_failed',
+            'worker_shutdown',
+            'internal_error',
+        ],
+    },
+    failedStage: {
+        type: String,
+        enum: ['script', 'audio', 'combine', 'upload'],
+    },
+    // Stage outputs (dialogue, segment audio keys, combined audio key)
+    checkpoint: {
+        type: Schema.Types.Mixed,
+    },
+    // Start, end, duration and attempts of each stage's last run
+    stageTimings: {
+        type: Schema.Types.Mixed,
+    },
+    batchId: {
+        type: String,
+        index: true,
+        sparse: true,
+    },
+    // Schedule that enqueued the job and the run time it was enqueued for
+    scheduleId: {
+        type: String,
+        index: true,
+        sparse: true,
+    },
+    scheduledFor: {
+        type: Date,
+    },
+    // Identifies the worker process that claimed the job
+    workerId: {
+        type: String,
+    },
+    // Refreshed by the worker while it runs the job; a stale value means the worker died
+    heartbeatAt: {
+        type: Date,
+    },
+    // Processing jobs are cancelled by their worker once it sees this flag
+    cancelRequestedAt: {
+        type: Date,
+    },
+    // Last sequence number handed out to this job's events
+    eventSeq: {
+        type: Number,
+        default: 0,
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now,
+    },
+    startedAt: {
+        type: Date,
+    },
+    completedAt: {
+        type: Date,
+    },
+});
+
+// Indexes for claiming the next queued job and listing user jobs
+jobSchema.index({ status: 1, dispatchAt: 1 });
+jobSchema.index({ tenantId: 1, userId: 1, createdAt: -1 });
+jobSchema.index({ status: 1, apiKeyId: 1 });
+// Index for a job's position among its tenant's queued jobs
+jobSchema.index({ tenantId: 1, status: 1, dispatchAt: 1 });
+// Index for the admin list of recent jobs
+jobSchema.index({ createdAt: -1 });
+
+export const Job = mongoose.model<IJob>('Job', jobSchema);
@@ -0,0 +1,41 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { JobEventType } from '../types/jobs.js';
+
+export interface IJobEvent extends Document {
+    jobId: string;
+    seq: number;
+    type: JobEventType;
+    data: Record<string, unknown>;
+    createdAt: Date;
+}
+
+const jobEventSchema = new Schema<IJobEvent>({
+    jobId: {
+        type: String,
+        required: true,
+    },
+    // Per-job sequence number, used as the SSE event ID
+    seq: {
+        type: Number,
+        required: true,
+    },
+    type: {
+        type: String,
+        enum: ['queued', 'progress', 'stage', 'segment', 'completed', 'failed', 'cancelled'],
+        required: true,
+    },
+    data: {
+        type: Schema.Types.Mixed,
+        default: {},
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now,
+    },
+});
+
+// Events are read in order per job and expire with the jobs they describe
+jobEventSchema.index({ jobId: 1, seq: 1 }, { unique: true });
+jobEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+export const JobEvent = mongoose.model<IJobEvent>('JobEvent', jobEventSchema);
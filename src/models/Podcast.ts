@@ -1,24 +1,34 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import type { TranscriptSegment, PodcastDuration } from '../types/index.js';
+import type { TranscriptSegment, PodcastDuration, PodcastStatus, PodcastErrorCode, PodcastStyle, VoiceConfig } from '../types/index.js';
+import type { JobStage } from '../types/jobs.js';
 
 export interface IPodcast extends Document {
+    tenantId?: string;
+    jobId?: string;
     noteId: string;
     userId: string;
     noteContent: string;
     duration: PodcastDuration;
+    targetMinutes?: number;
+    style?: PodcastStyle;
+    contentHash?: string;
+    ttsProvider?: string;
+    voices?: VoiceConfig;
     audioUrl: string;
     audioDuration: number;
     transcript: TranscriptSegment[];
-    status: 'generating' | 'completed' | 'failed';
+    status: PodcastStatus;
     error?: string;
+    errorCode?: PodcastErrorCode;
+    failedStage?: JobStage;
     createdAt: Date;
     updatedAt: Date;
 }
 
 const transcriptSegmentSchema = new Schema({
+    // Speaker id from the podcast's roster ('host' or 'guest' by default)
     speaker: {
         type: String,
-        enum: ['host', 'guest'],
         required: true,
     },
     text: {
@@ -35,7 +45,54 @@ const transcriptSegmentSchema = new Schema({
     },
 }, { _id: false });
 
+const speakerPersonaSchema = new Schema({
+    name: { type: String },
+    role: { type: String },
+    style: { type: String },
+}, { _id: false });
+
+const podcastSpeakerSchema = new Schema({
+    id: { type: String, required: true },
+    name: { type: String },
+    role: { type: String },
+    style: { type: String },
+    voice: { type: String },
+}, { _id: false });
+
+// Format, speakers, personas, tone and audience a script was written with (also stored on jobs and schedules)
+export const podcastStyleSchema = new Schema({
+    format: {
+        type: String,
+        enum: ['dialogue', 'narration', 'interview', 'debate', 'lecture'],
+    },
+    personas: {
+        host: { type: speakerPersonaSchema },
+        guest: { type: speakerPersonaSchema },
+    },
+    speakers: {
+        type: [podcastSpeakerSchema],
+        default: undefined,
+    },
+    tone: {
+        type: String,
+        enum: ['casual', 'academic', 'energetic'],
+    },
+    audience: {
+        type: String,
+    },
+}, { _id: false });
+
 const podcastSchema = new Schema<IPodcast>({
+    // Tenant of the API key that created the podcast; reads are limited to it
+    tenantId: {
+        type: String,
+    },
+    // Job generating this podcast (unset for synchronous generations)
+    jobId: {
+        type: String,
+        index: true,
+        sparse: true,
+    },
     noteId: {
         type: String,
         required: true,
@@ -52,9 +109,28 @@ const podcastSchema = new Schema<IPodcast>({
     },
     duration: {
         type: String,
-        enum: ['short', 'long'],
+        enum: ['short', 'long', 'custom'],
         required: true,
     },
+    // Requested length; unset on records created before custom lengths
+    targetMinutes: {
+        type: Number,
+    },
+    // Personas, tone and audience the script was written with
+    style: {
+        type: podcastStyleSchema,
+    },
+    // Hash of noteContent + generation options, used to reuse identical podcasts
+    contentHash: {
+        type: String,
+    },
+    ttsProvider: {
+        type: String,
+    },
+    // TTS voice per speaker id
+    voices: {
+        type: Schema.Types.Mixed,
+    },
     audioUrl: {
         type: String,
         default: '',
@@ -69,20 +145,38 @@ const podcastSchema = new Schema<IPodcast>({
     },
     status: {
         type: String,
-        enum: ['generating', 'completed', 'failed'],
+        enum: ['queued', 'generating', 'completed', 'failed', 'cancelled'],
         default: 'generating',
         required: true,
     },
     error: {
         type: String,
     },
+    errorCode: {
+        type: String,
+        enum: [
+            'script_generation_failed',
+            'audio_generation_failed',
+            'audio_combine_failed',
+            'upload_failed',
+            'worker_shutdown',
+            'internal_error',
+        ],
+    },
+    // Pipeline stage that failed (unset if the failure happened outside a stage)
+    failedStage: {
+        type: String,
+        enum: ['script', 'audio', 'combine', 'upload'],
+    },
 }, {
     timestamps: true,
 });
 
 // Indexes for efficient queries
 podcastSchema.index({ createdAt: -1 });
-podcastSchema.index({ userId: 1, createdAt: -1 });
-podcastSchema.index({ noteId: 1, createdAt: -1 });
+podcastSchema.index({ tenantId: 1, userId: 1, createdAt: -1 });
+podcastSchema.index({ tenantId: 1, noteId: 1, createdAt: -1 });
+podcastSchema.index({ tenantId: 1, userId: 1, contentHash: 1, status: 1 });
+podcastSchema.index({ status: 1, updatedAt: -1 });
 
 export const Podcast = mongoose.model<IPodcast>('Podcast', podcastSchema);
@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { ProviderKind } from '../types/index.js';
+
+// How long provider call records are kept
+const PROVIDER_CALL_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+export interface IProviderCall extends Document {
+    kind: ProviderKind;
+    provider: string;
+    success: boolean;
+    durationMs: number;
+    error?: string;
+    createdAt: Date;
+}
+
+const providerCallSchema = new Schema<IProviderCall>({
+    kind: {
+        type: String,
+        enum: ['llm', 'tts'],
+        required: true,
+    },
+    // Provider name, e.g. "OpenAI" or "ElevenLabs"
+    provider: {
+        type: String,
+        required: true,
+    },
+    success: {
+        type: Boolean,
+        required: true,
+    },
+    durationMs: {
+        type: Number,
+        required: true,
+    },
+    error: {
+        type: String,
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now,
+    },
+});
+
+// Index for error rates over a time window; records expire after 7 days
+providerCallSchema.index({ createdAt: 1 }, { expireAfterSeconds: PROVIDER_CALL_RETENTION_SECONDS });
+
+export const ProviderCall = mongoose.model<IProviderCall>('ProviderCall', providerCallSchema);
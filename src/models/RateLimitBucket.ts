@@ -0,0 +1,40 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IRateLimitBucket extends Document {
+    key: string;
+    tokens: number;
+    refilledAt: number;
+    allowed: boolean;
+    expiresAt: Date;
+}
+
+const rateLimitBucketSchema = new Schema<IRateLimitBucket>({
+    // Bucket name and API key, e.g. "generate:key_abc123"
+    key: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    tokens: {
+        type: Number,
+        required: true,
+    },
+    // Epoch milliseconds the tokens were last refilled to
+    refilledAt: {
+        type: Number,
+        required: true,
+    },
+    // Whether the last request took a token
+    allowed: {
+        type: Boolean,
+    },
+    // The bucket is full again by then, so MongoDB can drop it
+    expiresAt: {
+        type: Date,
+        required: true,
+    },
+});
+
+rateLimitBucketSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RateLimitBucket = mongoose.model<IRateLimitBucket>('RateLimitBucket', rateLimitBucketSchema);
@@ -0,0 +1,131 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { PlanName, PodcastDuration, PodcastStyle } from '../types/index.js';
+import type { JobPriority, ScheduleStatus } from '../types/jobs.js';
+import { podcastStyleSchema } from './Podcast.js';
+
+export interface ISchedule extends Document {
+    scheduleId: string;
+    apiKeyId: string;
+    tenantId: string;
+    plan: PlanName;
+    status: ScheduleStatus;
+    pausedReason?: string;
+    noteId: string;
+    noteContent: string;
+    userId: string;
+    duration: PodcastDuration;
+    targetMinutes?: number;
+    style?: PodcastStyle;
+    priority?: JobPriority;
+    callbackUrl?: string;
+    runAt?: Date;
+    cron?: string;
+    timezone: string;
+    nextRunAt?: Date;
+    lastRunAt?: Date;
+    lastJobId?: string;
+    runCount: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const scheduleSchema = new Schema<ISchedule>({
+    scheduleId: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    apiKeyId: {
+        type: String,
+        required: true,
+    },
+    tenantId: {
+        type: String,
+        required: true,
+        index: true,
+    },
+    plan: {
+        type: String,
+        enum: ['hacker', 'indie', 'startup', 'scale'],
+        required: true,
+    },
+    status: {
+        type: String,
+        enum: ['active', 'paused', 'completed'],
+        default: 'active',
+        required: true,
+    },
+    pausedReason: {
+        type: String,
+    },
+    noteId: {
+        type: String,
+        required: true,
+    },
+    noteContent: {
+        type: String,
+        required: true,
+    },
+    userId: {
+        type: String,
+        required: true,
+    },
+    duration: {
+        type: String,
+        enum: ['short', 'long', 'custom'],
+        required: true,
+    },
+    // Requested length; unset on records created before custom lengths
+    targetMinutes: {
+        type: Number,
+    },
+    // Personas, tone and audience for the script
+    style: {
+        type: podcastStyleSchema,
+    },
+    priority: {
+        type: String,
+        enum: ['low', 'normal', 'high'],
+    },
+    // Passed on to every job the schedule enqueues
+    callbackUrl: {
+        type: String,
+    },
+    // One-off run time, or a 5-field cron expression evaluated in timezone
+    runAt: {
+        type: Date,
+    },
+    cron: {
+        type: String,
+    },
+    timezone: {
+        type: String,
+        default: 'UTC',
+    },
+    nextRunAt: {
+        type: Date,
+    },
+    lastRunAt: {
+        type: Date,
+    },
+    lastJobId: {
+        type: String,
+    },
+    runCount: {
+        type: Number,
+        default: 0,
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now,
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now,
+    },
+});
+
+// Index for finding due schedules
+scheduleSchema.index({ status: 1, nextRunAt: 1 });
+
+export const Schedule = mongoose.model<ISchedule>('Schedule', scheduleSchema);
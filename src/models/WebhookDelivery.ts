@@ -0,0 +1,99 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { WebhookDeliveryStatus, WebhookDeliveryAttempt } from '../types/webhooks.js';
+
+// How long delivery records are kept
+const DELIVERY_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+export interface IWebhookDelivery extends Document {
+    deliveryId: string;
+    event: string;
+    url: string;
+    apiKeyId?: string;
+    endpointId?: string;
+    payload: Record<string, unknown>;
+    status: WebhookDeliveryStatus;
+    attemptCount: number;
+    attempts: WebhookDeliveryAttempt[];
+    nextAttemptAt?: Date;
+    deliveredAt?: Date;
+    deadLetteredAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const attemptSchema = new Schema({
+    attemptedAt: {
+        type: Date,
+        required: true,
+    },
+    statusCode: {
+        type: Number,
+    },
+    durationMs: {
+        type: Number,
+        required: true,
+    },
+    error: {
+        type: String,
+    },
+}, { _id: false });
+
+const webhookDeliverySchema = new Schema<IWebhookDelivery>({
+    deliveryId: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    event: {
+        type: String,
+        required: true,
+    },
+    url: {
+        type: String,
+        required: true,
+    },
+    apiKeyId: {
+        type: String,
+    },
+    endpointId: {
+        type: String,
+    },
+    payload: {
+        type: Schema.Types.Mixed,
+        required: true,
+    },
+    status: {
+        type: String,
+        enum: ['pending', 'delivered', 'dead'],
+        default: 'pending',
+        required: true,
+    },
+    attemptCount: {
+        type: Number,
+        default: 0,
+    },
+    attempts: {
+        type: [attemptSchema],
+        default: [],
+    },
+    // Pending deliveries are retried once this passes; also acts as a claim lease
+    nextAttemptAt: {
+        type: Date,
+    },
+    deliveredAt: {
+        type: Date,
+    },
+    deadLetteredAt: {
+        type: Date,
+    },
+}, {
+    timestamps: true,
+});
+
+// Indexes for finding due retries and listing an API key's deliveries
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+webhookDeliverySchema.index({ apiKeyId: 1, createdAt: -1 });
+// Expire old deliveries
+webhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: DELIVERY_RETENTION_SECONDS });
+
+export const WebhookDelivery = mongoose.model<IWebhookDelivery>('WebhookDelivery', webhookDeliverySchema);
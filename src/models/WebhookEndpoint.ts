@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { WebhookEvent } from '../types/webhooks.js';
+
+export interface IWebhookEndpoint extends Document {
+    endpointId: string;
+    apiKeyId: string;
+    url: string;
+    secret: string;
+    events: WebhookEvent[];
+    description?: string;
+    enabled: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const webhookEndpointSchema = new Schema<IWebhookEndpoint>({
+    endpointId: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    apiKeyId: {
+        type: String,
+        required: true,
+    },
+    url: {
+        type: String,
+        required: true,
+    },
+    // Signing secret; only returned when the endpoint is created
+    secret: {
+        type: String,
+        required: true,
+        select: false,
+    },
+    events: {
+        type: [String],
+        enum: ['podcast.completed', 'podcast.failed', 'podcast.progress', 'podcast.cancelled', 'job.cancelled', 'batch.completed'],
+        required: true,
+    },
+    description: {
+        type: String,
+    },
+    enabled: {
+        type: Boolean,
+        default: true,
+    },
+}, {
+    timestamps: true,
+});
+
+// Index for finding an API key's subscribers to an event
+webhookEndpointSchema.index({ apiKeyId: 1, events: 1 });
+
+export const WebhookEndpoint = mongoose.model<IWebhookEndpoint>('WebhookEndpoint', webhookEndpointSchema);
@@ -0,0 +1,51 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// How long a worker stays listed after its last heartbeat
+const WORKER_RECORD_TTL_SECONDS = 5 * 60;
+
+export interface IWorker extends Document {
+    workerId: string;
+    hostname: string;
+    pid: number;
+    concurrency: number;
+    activeJobIds: string[];
+    startedAt: Date;
+    lastHeartbeatAt: Date;
+}
+
+const workerSchema = new Schema<IWorker>({
+    workerId: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    hostname: {
+        type: String,
+        required: true,
+    },
+    pid: {
+        type: Number,
+        required: true,
+    },
+    concurrency: {
+        type: Number,
+        required: true,
+    },
+    activeJobIds: {
+        type: [String],
+        default: [],
+    },
+    startedAt: {
+        type: Date,
+        required: true,
+    },
+    lastHeartbeatAt: {
+        type: Date,
+        required: true,
+    },
+});
+
+// Workers that stop heartbeating are removed automatically
+workerSchema.index({ lastHeartbeatAt: 1 }, { expireAfterSeconds: WORKER_RECORD_TTL_SECONDS });
+
+export const Worker = mongoose.model<IWorker>('Worker', workerSchema);
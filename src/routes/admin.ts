@@ -0,0 +1,365 @@
+import express, { type Request, type Response } from 'express';
+import { z } from 'zod';
+import { apiKeyAuth, requireScope } from '../middleware/apiKeyAuth.js';
+import { rateLimit } from '../middleware/rateLimit.js';
+import { apiKeyStore } from '../services/apiKeyStore.js';
+import { jobQueue } from '../services/jobQueue.js';
+import { podcastDb } from '../services/podcastDatabase.js';
+import { providerMetrics } from '../services/providerMetrics.js';
+import { DEFAULT_PLAN, PLANS } from '../config/plans.js';
+import type { PlanName } from '../types/index.js';
+
+const router = express.Router();
+
+// Every route here needs an admin key
+router.use(apiKeyAuth, rateLimit('read'), requireScope('admin'));
+
+// Longest time a rotated-out key may keep working
+const MAX_ROTATION_GRACE_HOURS = 7 * 24;
+
+const createApiKeySchema = z.object({
+    tenantId: z.string().min(1, 'tenantId is required'),
+    name: z.string().min(1, 'name is required').max(200),
+    plan: z.enum(Object.keys(PLANS) as [PlanName, ...PlanName[]], {
+        message: `plan must be one of ${Object.keys(PLANS).join(', ')}`,
+    }).default(DEFAULT_PLAN),
+    // admin spans every tenant, so it is only granted through ADMIN_API_KEYS
+    scopes: z.array(z.enum(['podcasts:read', 'podcasts:write'], {
+        message: 'scopes must be podcasts:read or podcasts:write',
+    }))
+        .min(1, 'scopes must contain at least one scope')
+        .default(['podcasts:read', 'podcasts:write']),
+    expiresAt: z.iso.datetime({ offset: true, message: 'expiresAt must be an ISO 8601 date-time' })
+        .refine(value => new Date(value) > new Date(), 'expiresAt must be in the future')
+        .optional(),
+});
+
+const listApiKeysSchema = z.object({
+    tenantId: z.string().min(1).optional(),
+    includeRevoked: z.enum(['true', 'false']).transform(value => value === 'true').default(false),
+});
+
+const rotateApiKeySchema = z.object({
+    // How long the old key keeps working; 0 invalidates it immediately
+    gracePeriodHours: z.number().min(0).max(MAX_ROTATION_GRACE_HOURS).default(24),
+});
+
+// Largest page of recent jobs
+const MAX_RECENT_JOBS = 200;
+
+// Failures are read from podcast records, which are kept; provider calls are kept for 7 days
+const MAX_FAILURE_WINDOW_HOURS = 30 * 24;
+const MAX_PROVIDER_WINDOW_HOURS = 7 * 24;
+
+const recentJobsSchema = z.object({
+    status: z.enum(['queued', 'processing', 'completed', 'failed', 'cancelled']).optional(),
+    tenantId: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_RECENT_JOBS).default(50),
+});
+
+// Time window ending now, in hours
+function windowSchema(maxHours: number) {
+    return z.object({
+        windowHours: z.coerce.number().int().min(1).max(maxHours).default(24),
+    });
+}
+
+const failuresSchema = windowSchema(MAX_FAILURE_WINDOW_HOURS);
+const providersSchema = windowSchema(MAX_PROVIDER_WINDOW_HOURS);
+
+// POST /api/admin/keys - Issue an API key for a tenant
+router.post('/keys', async (req: Request, res: Response) => {
+    try {
+        const validationResult = createApiKeySchema.safeParse(req.body);
+
+        if (!validationResult.success) {
+            return res.status(400).json({
+                success: false,
+                error: 'Validation failed',
+                details: validationResult.error.issues,
+            });
+        }
+
+        const { expiresAt, ...request } = validationResult.data;
+        const { apiKey, key } = await apiKeyStore.createKey({
+            ...request,
+            expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+        });
+
+        return res.status(201).json({
+            success: true,
+            apiKey,
+            key,
+            message: 'Store the key now; it is not shown again.',
+        });
+    } catch (error) {
+        console.error('Error creating API key:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to create API key',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// GET /api/admin/keys - List API keys (?tenantId=, ?includeRevoked=true)
+router.get('/keys', async (req: Request, res: Response) => {
+    try {
+        const validationResult = listApiKeysSchema.safeParse(req.query);
+
+        if (!validationResult.success) {
+            return res.status(400).json({
+                success: false,
+                error: 'Validation failed',
+                details: validationResult.error.issues,
+            });
+        }
+
+        const apiKeys = await apiKeyStore.listKeys(validationResult.data);
+
+        return res.json({
+            success: true,
+            count: apiKeys.length,
+            apiKeys,
+        });
+    } catch (error) {
+        console.error('Error listing API keys:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to list API keys',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// GET /api/admin/keys/:keyId - Get an API key
+router.get('/keys/:keyId', async (req: Request, res: Response) => {
+    try {
+        const keyId = req.params.keyId;
+        if (!keyId) {
+            return res.status(400).json({ success: false, error: 'Key ID is required' });
+        }
+
+        const apiKey = await apiKeyStore.getKey(keyId);
+
+        if (!apiKey) {
+            return res.status(404).json({
+                success: false,
+                error: 'API key not found',
+            });
+        }
+
+        return res.json({
+            success: true,
+            apiKey,
+        });
+    } catch (error) {
+        console.error('Error getting API key:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to get API key',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// POST /api/admin/keys/:keyId/revoke - Stop an API key from working
+router.post('/keys/:keyId/revoke', async (req: Request, res: Response) => {
+    try {
+        const keyId = req.params.keyId;
+        if (!keyId) {
+            return res.status(400).json({ success: false, error: 'Key ID is required' });
+        }
+
+        const apiKey = await apiKeyStore.revokeKey(keyId);
+
+        if (!apiKey) {
+            return res.status(404).json({
+                success: false,
+                error: 'API key not found',
+            });
+        }
+
+        return res.json({
+            success: true,
+            apiKey,
+            message: 'API key revoked',
+        });
+    } catch (error) {
+        console.error('Error revoking API key:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to revoke API key',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// POST /api/admin/keys/:keyId/rotate - Issue a new key in place of an existing one
+router.post('/keys/:keyId/rotate', async (req: Request, res: Response) => {
+    try {
+        const keyId = req.params.keyId;
+        if (!keyId) {
+            return res.status(400).json({ success: false, error: 'Key ID is required' });
+        }
+
+        const validationResult = rotateApiKeySchema.safeParse(req.body ?? {});
+
+        if (!validationResult.success) {
+            return res.status(400).json({
+                success: false,
+                error: 'Validation failed',
+                details: validationResult.error.issues,
+            });
+        }
+
+        const result = await apiKeyStore.rotateKey(keyId, validationResult.data.gracePeriodHours * 60 * 60 * 1000);
+
+        if (!result) {
+            return res.status(404).json({
+                success: false,
+                error: 'API key not found',
+                message: 'No active API key with this ID',
+            });
+        }
+
+        return res.json({
+            success: true,
+            apiKey: result.apiKey,
+            key: result.key,
+            message: 'Store the new key now; it is not shown again.',
+        });
+    } catch (error) {
+        console.error('Error rotating API key:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to rotate API key',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// GET /api/admin/queue - Live queue depth by status and by tenant
+router.get('/queue', async (req: Request, res: Response) => {
+    try {
+        const [stats, depth] = await Promise.all([
+            jobQueue.getStats(),
+            jobQueue.getQueueDepth(),
+        ]);
+
+        return res.json({
+            success: true,
+            byStatus: stats,
+            byTenant: depth.byTenant,
+            oldestQueuedAt: depth.oldestQueuedAt,
+            oldestQueuedAgeSeconds: depth.oldestQueuedAt
+                ? Math.round((Date.now() - depth.oldestQueuedAt.getTime()) / 1000)
+                : null,
+        });
+    } catch (error) {
+        console.error('Error getting queue depth:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to get queue depth',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// GET /api/admin/jobs - Recent jobs of every tenant with stage timings (?status=, ?tenantId=, ?limit=)
+router.get('/jobs', async (req: Request, res: Response) => {
+    try {
+        const validationResult = recentJobsSchema.safeParse(req.query);
+
+        if (!validationResult.success) {
+            return res.status(400).json({
+                success: false,
+                error: 'Validation failed',
+                details: validationResult.error.issues,
+            });
+        }
+
+        const jobs = await jobQueue.getRecentJobs(validationResult.data);
+
+        return res.json({
+            success: true,
+            count: jobs.length,
+            jobs,
+        });
+    } catch (error) {
+        console.error('Error getting recent jobs:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to get recent jobs',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// GET /api/admin/failures - Failed generations grouped by stage and error (?windowHours=24)
+router.get('/failures', async (req: Request, res: Response) => {
+    try {
+        const validationResult = failuresSchema.safeParse(req.query);
+
+        if (!validationResult.success) {
+            return res.status(400).json({
+                success: false,
+                error: 'Validation failed',
+                details: validationResult.error.issues,
+            });
+        }
+
+        const { windowHours } = validationResult.data;
+        const since = new Date(Date.now() - windowHours * 60 * 60 * 1000);
+        const failures = await podcastDb.getFailureStats(since);
+
+        return res.json({
+            success: true,
+            windowHours,
+            since,
+            ...failures,
+        });
+    } catch (error) {
+        console.error('Error getting failure stats:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to get failure stats',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// GET /api/admin/providers - LLM and TTS call error rates per provider (?windowHours=24)
+router.get('/providers', async (req: Request, res: Response) => {
+    try {
+        const validationResult = providersSchema.safeParse(req.query);
+
+        if (!validationResult.success) {
+            return res.status(400).json({
+                success: false,
+                error: 'Validation failed',
+                details: validationResult.error.issues,
+            });
+        }
+
+        const { windowHours } = validationResult.data;
+        const since = new Date(Date.now() - windowHours * 60 * 60 * 1000);
+        const providers = await providerMetrics.getStats(since);
+
+        return res.json({
+            success: true,
+            windowHours,
+            since,
+            providers,
+        });
+    } catch (error) {
+        console.error('Error getting provider stats:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to get provider stats',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+export default router;
@@ -1,37 +1,359 @@
-import express, { type Request, type Response } from 'express';
+import express, { type NextFunction, type Request, type Response } from 'express';
 import { z } from 'zod';
-import type { GeneratePodcastRequest, GeneratePodcastResponse, TranscriptSegment } from '../types/index.js';
+import type { GeneratePodcastRequest, GeneratePodcastResponse, PlanConfig, PodcastStyle, TranscriptSegment } from '../types/index.js';
 import { generateScript } from '../services/scriptGenerator.js';
 import { generateAudio } from '../services/audioGenerator.js';
 import { combineAudio } from '../services/audioCombiner.js';
 import { uploadToS3 } from '../services/s3Uploader.js';
 import { podcastDb } from '../services/podcastDatabase.js';
-import { apiKeyAuth } from '../middleware/apiKeyAuth.js';
+import { apiKeyAuth, requireScope, type ApiKeyContext } from '../middleware/apiKeyAuth.js';
+import { rateLimit } from '../middleware/rateLimit.js';
+import { idempotency } from '../middleware/idempotency.js';
 import { jobQueue } from '../services/jobQueue.js';
+import { getGenerationCredits, getPlan, resolvePriority } from '../config/plans.js';
+import { sendCancelledWebhooks, sendWebhook } from '../services/webhook.js';
+import { jobEvents } from '../services/jobEvents.js';
+import { getGenerationFingerprint } from '../services/contentHash.js';
+import { getErrorCode } from '../services/errorCodes.js';
+import type { JobEventType, JobStatus, JobPriority, JobStage, PodcastJob, BatchItem } from '../types/jobs.js';
+import type { IPodcast } from '../models/Podcast.js';
+import { batchStore } from '../services/batchStore.js';
+import { scheduler } from '../services/scheduler.js';
+import { workerRegistry } from '../services/workerRegistry.js';
+import { getWorkerStatus } from '../services/jobProcessor.js';
+import { isDatabaseConnected } from '../config/database.js';
+import { getServiceRole, runsWorker } from '../config/role.js';
+import { parseCron, getNextRun, isValidTimeZone, CronParseError } from '../services/cronExpression.js';
+import { creditLedger, InsufficientCreditsError, type CreditCharge } from '../services/creditLedger.js';
+import { DEFAULT_FORMAT, FORMAT_SPEAKER_LIMITS, getSpeakers, MAX_SPEAKERS } from '../services/speakers.js';
+import { getPodcastLength, getRequestedLength, MAX_TARGET_MINUTES, MIN_TARGET_MINUTES } from '../services/podcastLength.js';
+import { webhookUrlSchema } from '../services/webhookUrl.js';
+import { shutdownManager, WorkerShutdownError } from '../services/shutdown.js';
 
 const router = express.Router();
 
+// Event streams send a comment this often so proxies don't close idle connections
+const SSE_HEARTBEAT_MS = 15000;
+
+// Fallback poll for events published by other processes (e.g. a separate worker)
+const SSE_POLL_MS = 1000;
+
+// Events after which a job's stream is closed
+const TERMINAL_EVENTS: JobEventType[] = ['completed', 'failed', 'cancelled'];
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+const speakerPersonaSchema = z.object({
+    name: z.string().min(1).max(50).optional(),
+    role: z.string().min(1).max(200).optional(),
+    style: z.string().min(1).max(200).optional(),
+});
+
+// A speaker of a custom roster; voice is a voice ID of the configured TTS provider
+const podcastSpeakerSchema = speakerPersonaSchema.extend({
+    id: z.string().regex(/^[a-z0-9_-]{1,32}$/i, 'speaker id must be 1-32 letters, digits, "-" or "_"'),
+    voice: z.string().min(1).max(100).optional(),
+});
+
 // Request validation schema
 const generatePodcastSchema = z.object({
     noteId: z.string().min(1, 'noteId is required'),
     noteContent: z.string().min(10, 'noteContent must be at least 10 characters'),
     userId: z.string().min(1, 'userId is required'),
+    // A preset length, or any length in minutes up to the plan's limit
     duration: z.enum(['short', 'long'], {
         message: 'duration must be either "short" or "long"',
-    }),
+    }).optional(),
+    targetMinutes: z.number()
+        .int('targetMinutes must be a whole number of minutes')
+        .min(MIN_TARGET_MINUTES, `targetMinutes must be at least ${MIN_TARGET_MINUTES}`)
+        .max(MAX_TARGET_MINUTES, `targetMinutes can be at most ${MAX_TARGET_MINUTES}`)
+        .optional(),
+    // "if-identical" returns an existing podcast for unchanged content and options
+    reuse: z.enum(['never', 'if-identical'], {
+        message: 'reuse must be either "never" or "if-identical"',
+    }).default('never'),
+    // Always generate a new podcast, even when reuse is requested
+    force: z.boolean().default(false),
+    // Also notify this URL, in addition to the API key's webhook endpoints
+    callbackUrl: webhookUrlSchema('callbackUrl').optional(),
+    // Structure of the episode (a host and guest Q&A by default)
+    format: z.enum(['dialogue', 'narration', 'interview', 'debate', 'lecture'], {
+        message: 'format must be "dialogue", "narration", "interview", "debate" or "lecture"',
+    }).optional(),
+    // Who the speakers are and how the episode should sound
+    personas: z.object({
+        host: speakerPersonaSchema.optional(),
+        guest: speakerPersonaSchema.optional(),
+    }).optional(),
+    // Custom roster in place of the host and guest; the first speaker leads.
+    // How many speakers are allowed depends on the format.
+    speakers: z.array(podcastSpeakerSchema)
+        .min(1, 'speakers must contain at least one speaker')
+        .max(MAX_SPEAKERS, `speakers can contain at most ${MAX_SPEAKERS} speakers`)
+        .refine(
+            speakers => new Set(speakers.map(speaker => speaker.id)).size === speakers.length,
+            'speaker ids must be unique'
+        )
+        .optional(),
+    tone: z.enum(['casual', 'academic', 'energetic'], {
+        message: 'tone must be "casual", "academic" or "energetic"',
+    }).optional(),
+    audience: z.string().min(1).max(200).optional(),
 });
 
+type GeneratePodcastInput = z.infer<typeof generatePodcastSchema>;
+
+// Checks across fields: the length is given exactly one way, the roster fits the
+// format, and personas (which only describe the default host and guest) aren't
+// combined with a roster
+function checkGenerateRequest(
+    input: Pick<GeneratePodcastInput, 'duration' | 'targetMinutes' | 'format' | 'personas' | 'speakers'>,
+    ctx: z.RefinementCtx
+) {
+    const format = input.format ?? DEFAULT_FORMAT;
+
+    if (!input.duration === (input.targetMinutes === undefined)) {
+        ctx.addIssue({ code: 'custom', path: ['duration'], message: 'Provide exactly one of duration or targetMinutes' });
+    }
+
+    if (input.speakers && input.personas) {
+        ctx.addIssue({
+            code: 'custom',
+            path: ['personas'],
+            message: 'personas cannot be combined with speakers; describe each speaker in speakers instead',
+        });
+    }
+
+    if (input.speakers) {
+        const { min, max } = FORMAT_SPEAKER_LIMITS[format];
+        if (input.speakers.length < min || input.speakers.length > max) {
+            ctx.addIssue({
+                code: 'custom',
+                path: ['speakers'],
+                message: min === max
+                    ? `${format} takes exactly ${min} speaker${min === 1 ? '' : 's'}`
+                    : `${format} takes ${min}-${max} speakers`,
+            });
+        }
+    } else if (format === 'narration' && input.personas?.guest) {
+        ctx.addIssue({
+            code: 'custom',
+            path: ['personas', 'guest'],
+            message: 'narration has a single speaker; describe them in personas.host',
+        });
+    }
+}
+
+// Only keep persona fields that were given, so equal styles always hash the same
+function compactPersona<T extends object>(persona: T | undefined): T | undefined {
+    if (!persona) {
+        return undefined;
+    }
+    const entries = Object.entries(persona).filter(([, value]) => value !== undefined);
+    return entries.length > 0 ? Object.fromEntries(entries) as T : undefined;
+}
+
+// The request's format, speakers, personas, tone and audience, or undefined if none
+// were given (the default format is left out, like any other unset option)
+function getPodcastStyle(
+    input: Pick<GeneratePodcastInput, 'format' | 'personas' | 'speakers' | 'tone' | 'audience'>
+): PodcastStyle | undefined {
+    const host = compactPersona(input.personas?.host);
+    const guest = compactPersona(input.personas?.guest);
+    const style: PodcastStyle = {
+        ...(input.format && input.format !== DEFAULT_FORMAT && { format: input.format }),
+        ...((host || guest) && { personas: compactPersona({ host, guest }) }),
+        ...(input.speakers && { speakers: input.speakers.map(speaker => compactPersona(speaker)!) }),
+        ...(input.tone && { tone: input.tone }),
+        ...(input.audience && { audience: input.audience }),
+    };
+    return Object.keys(style).length > 0 ? style : undefined;
+}
+
+// Find a completed podcast of the tenant that can be returned instead of generating a new one
+async function findReusablePodcast(input: GeneratePodcastInput, tenantId: string) {
+    if (input.reuse !== 'if-identical' || input.force) {
+        return null;
+    }
+
+    const { contentHash } = getGenerationFingerprint(input.noteContent, getRequestedLength(input), getPodcastStyle(input));
+    return podcastDb.findReusablePodcast(input.userId, contentHash, tenantId);
+}
+
+// Async requests may also pick a queue lane (capped by the caller's plan)
+const generatePodcastAsyncSchema = generatePodcastSchema.extend({
+    priority: z.enum(['low', 'normal', 'high'], {
+        message: 'priority must be "low", "normal" or "high"',
+    }).optional(),
+});
+
+type GeneratePodcastAsyncInput = z.infer<typeof generatePodcastAsyncSchema>;
+
+// Largest number of notes accepted in one batch request
+const MAX_BATCH_ITEMS = 500;
+
+const createBatchSchema = z.object({
+    items: z.array(generatePodcastAsyncSchema.superRefine(checkGenerateRequest))
+        .min(1, 'items must contain at least one note')
+        .max(MAX_BATCH_ITEMS, `items can contain at most ${MAX_BATCH_ITEMS} notes`),
+});
+
+// Schedules enqueue the same request once at runAt, or on every cron occurrence
+const createScheduleSchema = generatePodcastAsyncSchema
+    .omit({ reuse: true, force: true })
+    .extend({
+        runAt: z.iso.datetime({ offset: true, message: 'runAt must be an ISO 8601 date-time' }).optional(),
+        cron: z.string().optional(),
+        timezone: z.string().default('UTC'),
+    })
+    .superRefine((input, ctx) => {
+        checkGenerateRequest(input, ctx);
+
+        if (!input.runAt === !input.cron) {
+            ctx.addIssue({ code: 'custom', message: 'Provide exactly one of runAt or cron' });
+            return;
+        }
+
+        if (!isValidTimeZone(input.timezone)) {
+            ctx.addIssue({ code: 'custom', path: ['timezone'], message: `Unknown time zone "${input.timezone}"` });
+            return;
+        }
+
+        if (input.runAt && new Date(input.runAt) <= new Date()) {
+            ctx.addIssue({ code: 'custom', path: ['runAt'], message: 'runAt must be in the future' });
+        }
+
+        if (input.cron) {
+            try {
+                if (!getNextRun(parseCron(input.cron), new Date(), input.timezone)) {
+                    ctx.addIssue({ code: 'custom', path: ['cron'], message: 'cron expression never matches a date' });
+                }
+            } catch (error) {
+                if (!(error instanceof CronParseError)) {
+                    throw error;
+                }
+                ctx.addIssue({ code: 'custom', path: ['cron'], message: error.message });
+            }
+        }
+    });
+
+// 402 response for a request the caller's remaining credits don't cover
+function sendInsufficientCredits(res: Response, error: InsufficientCreditsError) {
+    return res.status(402).json({
+        success: false,
+        error: 'Insufficient credits',
+        message: error.message,
+        required: error.required,
+        balance: error.balance,
+    });
+}
+
+// 403 response for a podcast longer than the caller's plan allows
+function sendLengthNotAllowed(res: Response, plan: PlanConfig, targetMinutes: number) {
+    return res.status(403).json({
+        success: false,
+        error: 'Length not allowed',
+        message: `The ${plan.name} plan allows podcasts of up to ${plan.maxTargetMinutes} minutes; ${targetMinutes} were requested.`,
+        maxTargetMinutes: plan.maxTargetMinutes,
+    });
+}
+
+// Enqueue a job capped by the caller's plan concurrency and priority
+async function createPodcastJob(
+    apiKey: ApiKeyContext,
+    input: GeneratePodcastAsyncInput,
+    batchId?: string,
+    charge?: CreditCharge
+): Promise<{ job: PodcastJob; priority: JobPriority }> {
+    const { noteId, noteContent, userId } = input;
+    const length = getRequestedLength(input);
+
+    const plan = getPlan(apiKey.plan);
+    const priority = resolvePriority(plan, input.priority);
+    const job = await jobQueue.createJob({
+        noteId,
+        noteContent,
+        userId,
+        ...length,
+        style: getPodcastStyle(input),
+        apiKeyId: apiKey.keyId,
+        tenantId: apiKey.tenantId,
+        plan: plan.name,
+        concurrencyLimit: plan.maxConcurrentJobs,
+        priority,
+        callbackUrl: input.callbackUrl,
+        batchId,
+    }, charge);
+
+    console.log(`✓ Job created: ${job.jobId}`);
+    console.log(`  User: ${userId}, Note: ${noteId}, Length: ${length.targetMinutes} min, Plan: ${plan.name}, Priority: ${priority}`);
+
+    return { job, priority };
+}
+
+// Return an identical existing podcast if allowed, otherwise enqueue a job
+async function enqueuePodcast(
+    apiKey: ApiKeyContext,
+    input: GeneratePodcastAsyncInput
+): Promise<{ reused: IPodcast } | { job: PodcastJob; priority: JobPriority }> {
+    const existing = await findReusablePodcast(input, apiKey.tenantId);
+    if (existing) {
+        console.log(`♻️  Reusing podcast ${existing._id} for unchanged note ${input.noteId}`);
+        return { reused: existing };
+    }
+
+    return createPodcastJob(apiKey, input);
+}
+
+// Give back charges taken for a batch that won't use them
+async function refundCharges(charges: (CreditCharge | undefined)[], reason: string): Promise<void> {
+    for (const charge of charges) {
+        if (charge) {
+            await creditLedger.refund(charge.entryId, reason)
+                .catch(err => console.error('Failed to refund credits:', err));
+        }
+    }
+}
+
+// API-only instances leave generation to workers, so they only take async requests.
+// Runs before idempotency so the same key still works against another instance.
+function requireWorkerRole(req: Request, res: Response, next: NextFunction) {
+    if (!runsWorker(getServiceRole())) {
+        return res.status(400).json({
+            success: false,
+            error: 'Synchronous generation unavailable',
+            message: 'This instance only enqueues jobs. Use POST /api/podcast/generate/async and poll the job or wait for its webhook.',
+        });
+    }
+
+    next();
+}
+
 // POST /api/podcast/generate - Protected with API key
-router.post('/generate', apiKeyAuth, async (req: Request, res: Response) => {
+router.post('/generate', apiKeyAuth, rateLimit('generate'), requireScope('podcasts:write'), requireWorkerRole, idempotency, async (req: Request, res: Response) => {
     const startTime = Date.now();
     let podcastId: string | undefined;
+    let stage: JobStage | undefined;
+    let input: GeneratePodcastInput | undefined;
+    let charge: CreditCharge | undefined;
+
+    // Interrupt the generation if it is still running when the shutdown grace period ends
+    const controller = new AbortController();
+    let shutdownTimer: ReturnType<typeof setTimeout> | undefined;
+    const onShutdown = () => {
+        shutdownTimer = setTimeout(() => {
+            controller.abort(new WorkerShutdownError('Server shut down before the podcast finished generating'));
+        }, shutdownManager.remainingGracePeriodMs);
+    };
+    shutdownManager.signal.addEventListener('abort', onShutdown, { once: true });
+    const { signal } = controller;
 
     try {
         console.log('\n=== Podcast Generation Request ===');
         console.log('Request body:', JSON.stringify(req.body, null, 2));
 
         // Validate request
-        const validationResult = generatePodcastSchema.safeParse(req.body);
+        const validationResult = await generatePodcastSchema.superRefine(checkGenerateRequest).safeParseAsync(req.body);
         if (!validationResult.success) {
             return res.status(400).json({
                 success: false,
@@ -40,34 +362,77 @@ router.post('/generate', apiKeyAuth, async (req: Request, res: Response) => {
             });
         }
 
-        const { noteId, noteContent, userId, duration } = validationResult.data;
+        input = validationResult.data;
+        const { noteId, noteContent, userId } = input;
+        const length = getRequestedLength(input);
+        const { duration, targetMinutes } = length;
+        const style = getPodcastStyle(input);
+
+        const plan = getPlan(req.apiKey!.plan);
+        if (targetMinutes > plan.maxTargetMinutes) {
+            return sendLengthNotAllowed(res, plan, targetMinutes);
+        }
+
+        console.log(`User: ${userId}, Note: ${noteId}, Length: ${targetMinutes} min`);
 
-        console.log(`User: ${userId}, Note: ${noteId}, Duration: ${duration}`);
+        // Return an identical existing podcast if the caller allows reuse
+        const existing = await findReusablePodcast(input, req.apiKey!.tenantId);
+        if (existing) {
+            console.log(`♻️  Reusing podcast ${existing._id} for unchanged note ${noteId}`);
+            return res.json({
+                success: true,
+                reused: true,
+                podcastId: existing._id.toString(),
+                audioUrl: existing.audioUrl,
+                duration: existing.audioDuration,
+                transcript: existing.transcript,
+                createdAt: existing.createdAt,
+            });
+        }
+
+        // Charge before doing any work; refunded below if generation fails
+        charge = await creditLedger.debit({
+            tenantId: req.apiKey!.tenantId,
+            apiKeyId: req.apiKey!.keyId,
+            plan: req.apiKey!.plan,
+            duration,
+            targetMinutes,
+            noteId,
+        });
 
         // Create podcast record in database (status: generating)
         const podcast = await podcastDb.createPodcast({
+            tenantId: req.apiKey!.tenantId,
             noteId,
             userId,
             noteContent,
             duration,
+            targetMinutes,
+            style,
+            ...getGenerationFingerprint(noteContent, length, style),
         });
         podcastId = podcast._id.toString();
 
         // Step 1: Generate script
+        stage = 'script';
         console.log('\n[1/4] Generating script...');
-        const dialogueSegments = await generateScript(noteContent, duration);
+        const dialogueSegments = await generateScript(noteContent, length, { style, signal });
 
         // Step 2: Generate audio for each segment
+        stage = 'audio';
         console.log('\n[2/4] Generating audio...');
-        const audioSegments = await generateAudio(dialogueSegments);
+        const audioSegments = await generateAudio(dialogueSegments, { speakers: getSpeakers(style), signal });
 
         // Step 3: Combine audio segments
+        stage = 'combine';
         console.log('\n[3/4] Combining audio...');
-        const { audioBuffer: finalAudio, totalDuration } = await combineAudio(audioSegments);
+        const { audioBuffer: finalAudio, totalDuration } = await combineAudio(audioSegments, signal);
 
         // Step 4: Upload to S3
+        stage = 'upload';
         console.log('\n[4/4] Uploading to S3...');
-        const audioUrl = await uploadToS3(finalAudio, noteId);
+        const audioUrl = await uploadToS3(finalAudio, noteId, signal);
+        stage = undefined;
 
         // Build transcript
         const transcript: TranscriptSegment[] = audioSegments.map(segment => ({
@@ -95,6 +460,19 @@ router.post('/generate', apiKeyAuth, async (req: Request, res: Response) => {
             createdAt: podcast.createdAt,
         };
 
+        void sendWebhook({
+            event: 'podcast.completed',
+            noteId,
+            userId,
+            duration,
+            targetMinutes,
+            podcastId,
+            audioUrl,
+            audioDuration: Math.round(totalDuration),
+            transcript,
+            timestamp: new Date().toISOString(),
+        }, { apiKeyId: req.apiKey!.keyId, callbackUrl: input.callbackUrl });
+
         const elapsedTime = ((Date.now() - startTime) / 1000).toFixed(2);
         console.log(`\n✓ Podcast generated successfully in ${elapsedTime}s`);
         console.log(`  Podcast ID: ${podcastId}`);
@@ -104,33 +482,64 @@ router.post('/generate', apiKeyAuth, async (req: Request, res: Response) => {
 
         return res.json(response);
     } catch (error) {
+        if (error instanceof InsufficientCreditsError) {
+            return sendInsufficientCredits(res, error);
+        }
+
         const elapsedTime = ((Date.now() - startTime) / 1000).toFixed(2);
         console.error(`\n✗ Podcast generation failed after ${elapsedTime}s:`, error);
 
+        // A shutdown surfaces as whatever error the aborted step threw; report the shutdown
+        const shutdown = signal.reason instanceof WorkerShutdownError;
+        const message = shutdown ? signal.reason.message : error instanceof Error ? error.message : 'Unknown error';
+        const errorCode = shutdown ? 'worker_shutdown' : getErrorCode(stage);
+
+        if (charge) {
+            await creditLedger.refund(charge.entryId, shutdown ? 'Interrupted by shutdown' : 'Generation failed')
+                .catch(err => console.error('Failed to refund credits:', err));
+        }
+
         // Update podcast record with error if we have an ID
-        if (podcastId) {
+        if (podcastId && input) {
             await podcastDb.updatePodcast(podcastId, {
                 status: 'failed',
-                error: error instanceof Error ? error.message : 'Unknown error',
+                error: message,
+                errorCode,
+                failedStage: stage,
             }).catch(err => console.error('Failed to update podcast error status:', err));
+
+            void sendWebhook({
+                event: 'podcast.failed',
+                noteId: input.noteId,
+                userId: input.userId,
+                ...getRequestedLength(input),
+                podcastId,
+                error: message,
+                errorCode,
+                failedStage: stage,
+                timestamp: new Date().toISOString(),
+            }, { apiKeyId: req.apiKey!.keyId, callbackUrl: input.callbackUrl });
         }
 
-        return res.status(500).json({
+        return res.status(shutdown ? 503 : 500).json({
             success: false,
             error: 'Failed to generate podcast',
-            message: error instanceof Error ? error.message : 'Unknown error',
+            message: shutdown ? `${message}. Please retry.` : message,
         });
+    } finally {
+        shutdownManager.signal.removeEventListener('abort', onShutdown);
+        clearTimeout(shutdownTimer);
     }
 });
 
 // POST /api/podcast/generate/async - Async generation with job queue
-router.post('/generate/async', apiKeyAuth, async (req: Request, res: Response) => {
+router.post('/generate/async', apiKeyAuth, rateLimit('generate'), requireScope('podcasts:write'), idempotency, async (req: Request, res: Response) => {
     try {
         console.log('\n=== Async Podcast Generation Request ===');
         console.log('Request body:', JSON.stringify(req.body, null, 2));
 
         // Validate request
-        const validationResult = generatePodcastSchema.safeParse(req.body);
+        const validationResult = await generatePodcastAsyncSchema.superRefine(checkGenerateRequest).safeParseAsync(req.body);
         if (!validationResult.success) {
             return res.status(400).json({
                 success: false,
@@ -139,22 +548,47 @@ router.post('/generate/async', apiKeyAuth, async (req: Request, res: Response) =
             });
         }
 
-        const { noteId, noteContent, userId, duration } = validationResult.data;
+        const { targetMinutes } = getRequestedLength(validationResult.data);
+        const plan = getPlan(req.apiKey!.plan);
+        if (targetMinutes > plan.maxTargetMinutes) {
+            return sendLengthNotAllowed(res, plan, targetMinutes);
+        }
 
-        // Create job in queue
-        const job = jobQueue.createJob(noteId, noteContent, userId, duration);
+        const result = await enqueuePodcast(req.apiKey!, validationResult.data);
 
-        console.log(`✓ Job created: ${job.jobId}`);
-        console.log(`  User: ${userId}, Note: ${noteId}, Duration: ${duration}`);
+        // An identical podcast already exists, so no job was created
+        if ('reused' in result) {
+            const existing = result.reused;
+            return res.json({
+                success: true,
+                reused: true,
+                status: 'completed',
+                podcastId: existing._id.toString(),
+                audioUrl: existing.audioUrl,
+                audioDuration: existing.audioDuration,
+                transcript: existing.transcript,
+                message: 'An identical podcast already exists. No new job was created.',
+            });
+        }
+
+        const { job, priority } = result;
+        const queuePosition = await jobQueue.getQueuePosition(job);
 
         // Return immediately with job ID
         return res.json({
             success: true,
             jobId: job.jobId,
+            podcastId: job.podcastId,
             status: job.status,
+            priority,
+            queuePosition,
             message: 'Podcast generation started. Use the jobId to check status.',
         });
     } catch (error) {
+        if (error instanceof InsufficientCreditsError) {
+            return sendInsufficientCredits(res, error);
+        }
+
         console.error('Error creating async job:', error);
         return res.status(500).json({
             success: false,
@@ -164,15 +598,357 @@ router.post('/generate/async', apiKeyAuth, async (req: Request, res: Response) =
     }
 });
 
+// POST /api/podcast/batches - Generate podcasts for many notes with one request
+router.post('/batches', apiKeyAuth, rateLimit('generate'), requireScope('podcasts:write'), idempotency, async (req: Request, res: Response) => {
+    try {
+        console.log('\n=== Batch Podcast Generation Request ===');
+
+        // Validate request
+        const validationResult = await createBatchSchema.safeParseAsync(req.body);
+        if (!validationResult.success) {
+            return res.status(400).json({
+                success: false,
+                error: 'Validation failed',
+                details: validationResult.error.issues,
+            });
+        }
+
+        const { items: inputs } = validationResult.data;
+        const plan = getPlan(req.apiKey!.plan);
+        const lengths = inputs.map(input => getRequestedLength(input).targetMinutes);
+
+        const longest = Math.max(...lengths);
+        if (longest > plan.maxTargetMinutes) {
+            return sendLengthNotAllowed(res, plan, longest);
+        }
+
+        // Identical existing podcasts answer their items without a charge
+        const reused: (IPodcast | null)[] = [];
+        for (const input of inputs) {
+            reused.push(await findReusablePodcast(input, req.apiKey!.tenantId));
+        }
+
+        // Report what the whole batch needs rather than the item that ran out
+        if (!plan.allowOverage) {
+            const required = lengths.reduce((sum, targetMinutes, index) =>
+                sum + (reused[index] ? 0 : getGenerationCredits(targetMinutes)), 0);
+            const balance = await creditLedger.getBalance(req.apiKey!.tenantId, plan.name);
+            if (required > balance.remaining) {
+                return sendInsufficientCredits(res, new InsufficientCreditsError(balance, required));
+            }
+        }
+
+        // Charge the whole batch before creating anything, so a request is either
+        // fully charged or not at all
+        const charges: (CreditCharge | undefined)[] = [];
+        try {
+            for (const [index, input] of inputs.entries()) {
+                charges.push(reused[index] ? undefined : await creditLedger.debit({
+                    tenantId: req.apiKey!.tenantId,
+                    apiKeyId: req.apiKey!.keyId,
+                    plan: plan.name,
+                    duration: getRequestedLength(input).duration,
+                    targetMinutes: lengths[index]!,
+                    noteId: input.noteId,
+                }));
+            }
+        } catch (error) {
+            await refundCharges(charges, 'Batch could not be charged');
+            throw error;
+        }
+
+        let batchId: string;
+        try {
+            batchId = await batchStore.createBatch(req.apiKey!.keyId, req.apiKey!.tenantId);
+        } catch (error) {
+            await refundCharges(charges, 'Batch could not be created');
+            throw error;
+        }
+
+        // Enqueue every note; jobs carry the batchId so the batch can track them.
+        // A job that can't be created is recorded as a failed item (its charge is
+        // refunded by createJob) rather than failing the rest of the batch.
+        const items: BatchItem[] = [];
+        for (const [index, input] of inputs.entries()) {
+            const item: BatchItem = { index, noteId: input.noteId, userId: input.userId };
+            const existing = reused[index];
+            if (existing) {
+                console.log(`♻️  Reusing podcast ${existing._id} for unchanged note ${input.noteId}`);
+                item.reusedPodcastId = existing._id.toString();
+            } else {
+                try {
+                    const { job } = await createPodcastJob(req.apiKey!, input, batchId, charges[index]);
+                    item.jobId = job.jobId;
+                } catch (error) {
+                    console.error(`Failed to enqueue batch ${batchId} item ${index}:`, error);
+                    item.error = error instanceof Error ? error.message : 'Job could not be created';
+                }
+            }
+            items.push(item);
+        }
+
+        await batchStore.markEnqueued(batchId, items);
+
+        const failed = items.filter(item => item.error).length;
+        console.log(`✓ Batch ${batchId}: ${items.length} items${failed ? `, ${failed} failed` : ''}`);
+
+        return res.json({
+            success: true,
+            batchId,
+            total: items.length,
+            items,
+            message: 'Batch created. Use the batchId to check status.',
+        });
+    } catch (error) {
+        if (error instanceof InsufficientCreditsError) {
+            return sendInsufficientCredits(res, error);
+        }
+
+        console.error('Error creating batch:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to create batch',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// GET /api/podcast/batches/:batchId - Aggregate batch status with per-item results
+router.get('/batches/:batchId', apiKeyAuth, rateLimit('read'), requireScope('podcasts:read'), async (req: Request, res: Response) => {
+    try {
+        const batchId = req.params.batchId;
+        if (!batchId) {
+            return res.status(400).json({ success: false, error: 'Batch ID is required' });
+        }
+
+        const batch = await batchStore.getSummary(batchId, req.apiKey!.tenantId);
+
+        if (!batch) {
+            return res.status(404).json({
+                success: false,
+                error: 'Batch not found',
+            });
+        }
+
+        return res.json({
+            success: true,
+            batch,
+        });
+    } catch (error) {
+        console.error('Error getting batch status:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to get batch status',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// POST /api/podcast/schedules - Schedule a one-off or recurring generation
+router.post('/schedules', apiKeyAuth, rateLimit('generate'), requireScope('podcasts:write'), idempotency, async (req: Request, res: Response) => {
+    try {
+        // Validate request
+        const validationResult = await createScheduleSchema.safeParseAsync(req.body);
+        if (!validationResult.success) {
+            return res.status(400).json({
+                success: false,
+                error: 'Validation failed',
+                details: validationResult.error.issues,
+            });
+        }
+
+        const { runAt, duration, targetMinutes, format, personas, speakers, tone, audience, ...input } = validationResult.data;
+        const length = getRequestedLength({ duration, targetMinutes });
+
+        const plan = getPlan(req.apiKey!.plan);
+        if (length.targetMinutes > plan.maxTargetMinutes) {
+            return sendLengthNotAllowed(res, plan, length.targetMinutes);
+        }
+
+        const schedule = await scheduler.createSchedule({
+            ...input,
+            ...length,
+            style: getPodcastStyle({ format, personas, speakers, tone, audience }),
+            runAt: runAt ? new Date(runAt) : undefined,
+            apiKeyId: req.apiKey!.keyId,
+            tenantId: req.apiKey!.tenantId,
+            plan: req.apiKey!.plan,
+        });
+
+        return res.status(201).json({
+            success: true,
+            schedule,
+        });
+    } catch (error) {
+        console.error('Error creating schedule:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to create schedule',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// GET /api/podcast/schedules - List the caller's schedules
+router.get('/schedules', apiKeyAuth, rateLimit('read'), requireScope('podcasts:read'), async (req: Request, res: Response) => {
+    try {
+        const schedules = await scheduler.listSchedules(req.apiKey!.tenantId);
+
+        return res.json({
+            success: true,
+            count: schedules.length,
+            schedules,
+        });
+    } catch (error) {
+        console.error('Error listing schedules:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to list schedules',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// GET /api/podcast/schedules/:scheduleId - Get a schedule
+router.get('/schedules/:scheduleId', apiKeyAuth, rateLimit('read'), requireScope('podcasts:read'), async (req: Request, res: Response) => {
+    try {
+        const scheduleId = req.params.scheduleId;
+        if (!scheduleId) {
+            return res.status(400).json({ success: false, error: 'Schedule ID is required' });
+        }
+
+        const schedule = await scheduler.getSchedule(scheduleId, req.apiKey!.tenantId);
+
+        if (!schedule) {
+            return res.status(404).json({
+                success: false,
+                error: 'Schedule not found',
+            });
+        }
+
+        return res.json({
+            success: true,
+            schedule,
+        });
+    } catch (error) {
+        console.error('Error getting schedule:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to get schedule',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// POST /api/podcast/schedules/:scheduleId/pause - Stop a schedule from running
+router.post('/schedules/:scheduleId/pause', apiKeyAuth, rateLimit('read'), requireScope('podcasts:write'), async (req: Request, res: Response) => {
+    try {
+        const scheduleId = req.params.scheduleId;
+        if (!scheduleId) {
+            return res.status(400).json({ success: false, error: 'Schedule ID is required' });
+        }
+
+        const schedule = await scheduler.pauseSchedule(scheduleId, req.apiKey!.tenantId);
+
+        if (!schedule) {
+            const existing = await scheduler.getSchedule(scheduleId, req.apiKey!.tenantId);
+            return res.status(existing ? 409 : 404).json({
+                success: false,
+                error: existing ? 'Schedule cannot be paused' : 'Schedule not found',
+                message: existing ? `Schedule is ${existing.status}` : undefined,
+            });
+        }
+
+        return res.json({
+            success: true,
+            schedule,
+        });
+    } catch (error) {
+        console.error('Error pausing schedule:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to pause schedule',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// POST /api/podcast/schedules/:scheduleId/resume - Resume a paused schedule
+router.post('/schedules/:scheduleId/resume', apiKeyAuth, rateLimit('read'), requireScope('podcasts:write'), async (req: Request, res: Response) => {
+    try {
+        const scheduleId = req.params.scheduleId;
+        if (!scheduleId) {
+            return res.status(400).json({ success: false, error: 'Schedule ID is required' });
+        }
+
+        const schedule = await scheduler.resumeSchedule(scheduleId, req.apiKey!.tenantId, {
+            apiKeyId: req.apiKey!.keyId,
+            plan: req.apiKey!.plan,
+        });
+
+        if (!schedule) {
+            const existing = await scheduler.getSchedule(scheduleId, req.apiKey!.tenantId);
+            return res.status(existing ? 409 : 404).json({
+                success: false,
+                error: existing ? 'Schedule cannot be resumed' : 'Schedule not found',
+                message: existing ? `Schedule is ${existing.status}` : undefined,
+            });
+        }
+
+        return res.json({
+            success: true,
+            schedule,
+        });
+    } catch (error) {
+        console.error('Error resuming schedule:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to resume schedule',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// DELETE /api/podcast/schedules/:scheduleId - Delete a schedule
+router.delete('/schedules/:scheduleId', apiKeyAuth, rateLimit('read'), requireScope('podcasts:write'), async (req: Request, res: Response) => {
+    try {
+        const scheduleId = req.params.scheduleId;
+        if (!scheduleId) {
+            return res.status(400).json({ success: false, error: 'Schedule ID is required' });
+        }
+
+        const deleted = await scheduler.deleteSchedule(scheduleId, req.apiKey!.tenantId);
+
+        if (!deleted) {
+            return res.status(404).json({
+                success: false,
+                error: 'Schedule not found',
+            });
+        }
+
+        return res.json({
+            success: true,
+            message: 'Schedule deleted successfully',
+        });
+    } catch (error) {
+        console.error('Error deleting schedule:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to delete schedule',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
 // GET /api/podcast/jobs/:jobId - Get job status
-router.get('/jobs/:jobId', async (req: Request, res: Response) => {
+router.get('/jobs/:jobId', apiKeyAuth, rateLimit('read'), requireScope('podcasts:read'), async (req: Request, res: Response) => {
     try {
         const jobId = req.params.jobId;
         if (!jobId) {
             return res.status(400).json({ success: false, error: 'Job ID is required' });
         }
 
-        const job = jobQueue.getJob(jobId);
+        const job = await jobQueue.getJob(jobId, req.apiKey!.tenantId);
 
         if (!job) {
             return res.status(404).json({
@@ -195,15 +971,233 @@ router.get('/jobs/:jobId', async (req: Request, res: Response) => {
     }
 });
 
+// GET /api/podcast/jobs/:jobId/events - Stream job progress as Server-Sent Events
+router.get('/jobs/:jobId/events', apiKeyAuth, rateLimit('read'), requireScope('podcasts:read'), async (req: Request, res: Response) => {
+    const jobId = req.params.jobId;
+    if (!jobId) {
+        return res.status(400).json({ success: false, error: 'Job ID is required' });
+    }
+
+    let job;
+    try {
+        job = await jobQueue.getJob(jobId, req.apiKey!.tenantId);
+    } catch (error) {
+        console.error('Error getting job for event stream:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to get job status',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+
+    if (!job) {
+        return res.status(404).json({
+            success: false,
+            error: 'Job not found',
+        });
+    }
+
+    // Resume after the last event the client saw (header set by EventSource on reconnect)
+    const lastEventId = (req.headers['last-event-id'] as string) || (req.query.lastEventId as string);
+    let lastSeq = parseInt(lastEventId) || 0;
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no', // Disable nginx buffering
+    });
+    res.write('retry: 3000\n\n');
+
+    let closed = false;
+    let sending = false;
+    let pending = false;
+
+    // Send every event stored since lastSeq, closing the stream after a terminal event
+    const sendNewEvents = async () => {
+        if (closed) return;
+        if (sending) {
+            pending = true;
+            return;
+        }
+
+        sending = true;
+        try {
+            do {
+                pending = false;
+                const events = await jobEvents.getEventsSince(jobId, lastSeq);
+
+                for (const event of events) {
+                    const data = { jobId, ...event.data, timestamp: event.createdAt };
+                    res.write(`id: ${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`);
+                    lastSeq = event.seq;
+
+                    if (TERMINAL_EVENTS.includes(event.type)) {
+                        close();
+                        return;
+                    }
+                }
+            } while (pending && !closed);
+        } catch (error) {
+            console.error(`Error streaming events for job ${jobId}:`, error);
+        } finally {
+            sending = false;
+        }
+    };
+
+    const unsubscribe = jobEvents.subscribe(jobId, () => {
+        void sendNewEvents();
+    });
+    const poll = setInterval(() => {
+        void sendNewEvents();
+    }, SSE_POLL_MS);
+    const heartbeat = setInterval(() => {
+        res.write(': heartbeat\n\n');
+    }, SSE_HEARTBEAT_MS);
+
+    function close() {
+        if (closed) return;
+        closed = true;
+        shutdownManager.signal.removeEventListener('abort', close);
+        unsubscribe();
+        clearInterval(poll);
+        clearInterval(heartbeat);
+        res.end();
+    }
+
+    req.on('close', close);
+    // End the stream at shutdown so the server can close; the client reconnects elsewhere
+    shutdownManager.signal.addEventListener('abort', close, { once: true });
+
+    await sendNewEvents();
+
+    // Client already has the terminal event of a finished job
+    if (FINISHED_STATUSES.includes(job.status)) {
+        close();
+    }
+});
+
+// Cancel a job: queued jobs stop immediately, processing jobs are aborted by their worker
+async function cancelJob(req: Request, res: Response) {
+    try {
+        const jobId = req.params.jobId;
+        if (!jobId) {
+            return res.status(400).json({ success: false, error: 'Job ID is required' });
+        }
+
+        const result = await jobQueue.cancelJob(jobId, req.apiKey!.tenantId);
+
+        if (!result) {
+            return res.status(404).json({
+                success: false,
+                error: 'Job not found',
+            });
+        }
+
+        const { job, outcome } = result;
+
+        if (outcome === 'finished') {
+            return res.status(409).json({
+                success: false,
+                error: 'Job cannot be cancelled',
+                message: `Job is already ${job.status}`,
+                job,
+            });
+        }
+
+        if (outcome === 'cancelling') {
+            return res.status(202).json({
+                success: true,
+                job,
+                message: 'Cancellation requested. The job will stop at the next safe point.',
+            });
+        }
+
+        // Queued jobs never started, so notify here rather than from the worker
+        void sendCancelledWebhooks({
+            jobId: job.jobId,
+            noteId: job.noteId,
+            userId: job.userId,
+            ...getPodcastLength(job),
+            podcastId: job.podcastId,
+            timestamp: new Date().toISOString(),
+        }, { apiKeyId: job.apiKeyId, callbackUrl: job.callbackUrl });
+
+        return res.json({
+            success: true,
+            job,
+            message: 'Job cancelled',
+        });
+    } catch (error) {
+        console.error('Error cancelling job:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to cancel job',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+}
+
+// DELETE /api/podcast/jobs/:jobId - Cancel a job
+router.delete('/jobs/:jobId', apiKeyAuth, rateLimit('read'), requireScope('podcasts:write'), cancelJob);
+
+// POST /api/podcast/jobs/:jobId/cancel - Cancel a job (for clients that can't send DELETE)
+router.post('/jobs/:jobId/cancel', apiKeyAuth, rateLimit('read'), requireScope('podcasts:write'), cancelJob);
+
+// POST /api/podcast/jobs/:jobId/retry - Resume a failed job from its last completed stage
+router.post('/jobs/:jobId/retry', apiKeyAuth, rateLimit('generate'), requireScope('podcasts:write'), async (req: Request, res: Response) => {
+    try {
+        const jobId = req.params.jobId;
+        if (!jobId) {
+            return res.status(400).json({ success: false, error: 'Job ID is required' });
+        }
+
+        const job = await jobQueue.retryJob(jobId, req.apiKey!.tenantId);
+
+        if (!job) {
+            const existing = await jobQueue.getJob(jobId, req.apiKey!.tenantId);
+            if (!existing) {
+                return res.status(404).json({
+                    success: false,
+                    error: 'Job not found',
+                });
+            }
+
+            return res.status(409).json({
+                success: false,
+                error: 'Job cannot be retried',
+                message: `Only failed jobs can be retried; job is ${existing.status}`,
+            });
+        }
+
+        return res.json({
+            success: true,
+            job,
+            message: 'Job requeued. It will resume from its last completed stage.',
+        });
+    } catch (error) {
+        if (error instanceof InsufficientCreditsError) {
+            return sendInsufficientCredits(res, error);
+        }
+
+        console.error('Error retrying job:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to retry job',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
 // GET /api/podcast/jobs/user/:userId - Get all jobs for a user
-router.get('/jobs/user/:userId', async (req: Request, res: Response) => {
+router.get('/jobs/user/:userId', apiKeyAuth, rateLimit('read'), requireScope('podcasts:read'), async (req: Request, res: Response) => {
     try {
         const userId = req.params.userId;
         if (!userId) {
             return res.status(400).json({ success: false, error: 'User ID is required' });
         }
 
-        const jobs = jobQueue.getUserJobs(userId);
+        const jobs = await jobQueue.getUserJobs(userId, req.apiKey!.tenantId);
 
         return res.json({
             success: true,
@@ -220,17 +1214,39 @@ router.get('/jobs/user/:userId', async (req: Request, res: Response) => {
     }
 });
 
-// Health check endpoint - MUST come before /:id route
-router.get('/health', (req: Request, res: Response) => {
-    res.json({
-        status: 'ok',
+// Health check endpoint - MUST come before /:id route. Unauthenticated so load
+// balancers can probe it; it exposes no tenant data.
+router.get('/health', async (req: Request, res: Response) => {
+    const role = getServiceRole();
+    const database = isDatabaseConnected();
+
+    // Queue depth and live workers, so API-only instances can tell whether jobs are being consumed
+    let queue: { queued: number; processing: number } | undefined;
+    let workers: number | undefined;
+    if (database) {
+        try {
+            const stats = await jobQueue.getStats();
+            queue = { queued: stats.queued, processing: stats.processing };
+            workers = (await workerRegistry.getLiveWorkers()).length;
+        } catch (error) {
+            console.error('Health check query failed:', error);
+        }
+    }
+
+    res.status(database ? 200 : 503).json({
+        status: database ? 'ok' : 'degraded',
         service: 'podcast-generator',
+        role,
+        database: database ? 'connected' : 'disconnected',
+        queue,
+        workers,
+        worker: runsWorker(role) ? getWorkerStatus() : undefined,
         timestamp: new Date().toISOString(),
     });
 });
 
 // GET /api/podcast/user/:userId - Get all podcasts for a user
-router.get('/user/:userId', async (req: Request, res: Response) => {
+router.get('/user/:userId', apiKeyAuth, rateLimit('read'), requireScope('podcasts:read'), async (req: Request, res: Response) => {
     try {
         const userId = req.params.userId;
         if (!userId) {
@@ -239,7 +1255,7 @@ router.get('/user/:userId', async (req: Request, res: Response) => {
         const limit = parseInt(req.query.limit as string) || 10;
         const skip = parseInt(req.query.skip as string) || 0;
 
-        const { podcasts, total } = await podcastDb.getPodcastsByUser(userId, limit, skip);
+        const { podcasts, total } = await podcastDb.getPodcastsByUser(userId, req.apiKey!.tenantId, limit, skip);
 
         return res.json({
             success: true,
@@ -259,13 +1275,13 @@ router.get('/user/:userId', async (req: Request, res: Response) => {
 });
 
 // GET /api/podcast/note/:noteId - Get all podcasts for a note
-router.get('/note/:noteId', async (req: Request, res: Response) => {
+router.get('/note/:noteId', apiKeyAuth, rateLimit('read'), requireScope('podcasts:read'), async (req: Request, res: Response) => {
     try {
         const noteId = req.params.noteId;
         if (!noteId) {
             return res.status(400).json({ success: false, error: 'Note ID is required' });
         }
-        const podcasts = await podcastDb.getPodcastsByNote(noteId);
+        const podcasts = await podcastDb.getPodcastsByNote(noteId, req.apiKey!.tenantId);
 
         return res.json({
             success: true,
@@ -282,13 +1298,13 @@ router.get('/note/:noteId', async (req: Request, res: Response) => {
 });
 
 // GET /api/podcast/:id - Get podcast by ID (MUST come after specific routes)
-router.get('/:id', async (req: Request, res: Response) => {
+router.get('/:id', apiKeyAuth, rateLimit('read'), requireScope('podcasts:read'), async (req: Request, res: Response) => {
     try {
         const id = req.params.id;
         if (!id) {
             return res.status(400).json({ success: false, error: 'Podcast ID is required' });
         }
-        const podcast = await podcastDb.getPodcastById(id);
+        const podcast = await podcastDb.getPodcastById(id, req.apiKey!.tenantId);
 
         if (!podcast) {
             return res.status(404).json({
@@ -297,9 +1313,19 @@ router.get('/:id', async (req: Request, res: Response) => {
             });
         }
 
+        // Include the generating job's state for async podcasts
+        const job = podcast.jobId ? await jobQueue.getJob(podcast.jobId, req.apiKey!.tenantId) : null;
+
         return res.json({
             success: true,
             podcast,
+            job: job && {
+                jobId: job.jobId,
+                status: job.status,
+                progress: job.progress,
+                currentStep: job.currentStep,
+                queuePosition: job.queuePosition,
+            },
         });
     } catch (error) {
         console.error('Error getting podcast:', error);
@@ -312,13 +1338,13 @@ router.get('/:id', async (req: Request, res: Response) => {
 });
 
 // DELETE /api/podcast/:id - Delete a podcast
-router.delete('/:id', async (req: Request, res: Response) => {
+router.delete('/:id', apiKeyAuth, rateLimit('read'), requireScope('podcasts:write'), async (req: Request, res: Response) => {
     try {
         const id = req.params.id;
         if (!id) {
             return res.status(400).json({ success: false, error: 'Podcast ID is required' });
         }
-        const deleted = await podcastDb.deletePodcast(id);
+        const deleted = await podcastDb.deletePodcast(id, req.apiKey!.tenantId);
 
         if (!deleted) {
             return res.status(404).json({
@@ -0,0 +1,47 @@
+import express, { type Request, type Response } from 'express';
+import { z } from 'zod';
+import { apiKeyAuth, requireScope } from '../middleware/apiKeyAuth.js';
+import { rateLimit } from '../middleware/rateLimit.js';
+import { creditLedger, getBillingPeriod } from '../services/creditLedger.js';
+
+const router = express.Router();
+
+const usageQuerySchema = z.object({
+    // Billing month to report, defaults to the current one
+    period: z.string()
+        .regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'period must be a month in YYYY-MM format')
+        .optional(),
+});
+
+// GET /api/usage - Generation credits used by the caller's tenant (?period=YYYY-MM)
+router.get('/', apiKeyAuth, rateLimit('read'), requireScope('podcasts:read'), async (req: Request, res: Response) => {
+    try {
+        const validationResult = usageQuerySchema.safeParse(req.query);
+
+        if (!validationResult.success) {
+            return res.status(400).json({
+                success: false,
+                error: 'Validation failed',
+                details: validationResult.error.issues,
+            });
+        }
+
+        const period = validationResult.data.period ?? getBillingPeriod();
+        const usage = await creditLedger.getUsage(req.apiKey!.tenantId, req.apiKey!.plan, period);
+
+        return res.json({
+            success: true,
+            tenantId: req.apiKey!.tenantId,
+            usage,
+        });
+    } catch (error) {
+        console.error('Error getting usage:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to get usage',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+export default router;
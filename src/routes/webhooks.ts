@@ -0,0 +1,316 @@
+import express, { type Request, type Response } from 'express';
+import { z } from 'zod';
+import { apiKeyAuth, requireScope } from '../middleware/apiKeyAuth.js';
+import { rateLimit } from '../middleware/rateLimit.js';
+import { webhookDeliveries, MAX_DELIVERY_PAGE_SIZE } from '../services/webhookDeliveries.js';
+import { webhookEndpoints, WEBHOOK_EVENTS } from '../services/webhookEndpoints.js';
+import { webhookUrlSchema } from '../services/webhookUrl.js';
+
+const router = express.Router();
+
+const endpointUrlSchema = webhookUrlSchema('url');
+const endpointEventsSchema = z.array(z.enum(WEBHOOK_EVENTS, {
+    message: `events must be any of ${WEBHOOK_EVENTS.join(', ')}`,
+})).min(1, 'events must contain at least one event');
+
+const createEndpointSchema = z.object({
+    url: endpointUrlSchema,
+    events: endpointEventsSchema,
+    description: z.string().max(500).optional(),
+});
+
+const updateEndpointSchema = z.object({
+    url: endpointUrlSchema.optional(),
+    events: endpointEventsSchema.optional(),
+    description: z.string().max(500).optional(),
+    enabled: z.boolean().optional(),
+}).refine(updates => Object.keys(updates).length > 0, { message: 'Provide at least one field to update' });
+
+// Query parameters for listing deliveries
+const listDeliveriesSchema = z.object({
+    status: z.enum(['pending', 'delivered', 'dead']).optional(),
+    event: z.string().min(1).optional(),
+    endpointId: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_DELIVERY_PAGE_SIZE).default(50),
+});
+
+// POST /api/webhooks/endpoints - Register an endpoint for some events
+router.post('/endpoints', apiKeyAuth, rateLimit('read'), requireScope('podcasts:write'), async (req: Request, res: Response) => {
+    try {
+        const validationResult = await createEndpointSchema.safeParseAsync(req.body);
+
+        if (!validationResult.success) {
+            return res.status(400).json({
+                success: false,
+                error: 'Validation failed',
+                details: validationResult.error.issues,
+            });
+        }
+
+        const endpoint = await webhookEndpoints.createEndpoint(req.apiKey!.keyId, validationResult.data);
+
+        return res.status(201).json({
+            success: true,
+            endpoint,
+            message: 'Store the secret now; it is not shown again.',
+        });
+    } catch (error) {
+        console.error('Error creating webhook endpoint:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to create webhook endpoint',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// GET /api/webhooks/endpoints - List the caller's endpoints
+router.get('/endpoints', apiKeyAuth, rateLimit('read'), requireScope('podcasts:read'), async (req: Request, res: Response) => {
+    try {
+        const endpoints = await webhookEndpoints.listEndpoints(req.apiKey!.keyId);
+
+        return res.json({
+            success: true,
+            count: endpoints.length,
+            endpoints,
+        });
+    } catch (error) {
+        console.error('Error listing webhook endpoints:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to list webhook endpoints',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// GET /api/webhooks/endpoints/:endpointId - Get an endpoint
+router.get('/endpoints/:endpointId', apiKeyAuth, rateLimit('read'), requireScope('podcasts:read'), async (req: Request, res: Response) => {
+    try {
+        const endpointId = req.params.endpointId;
+        if (!endpointId) {
+            return res.status(400).json({ success: false, error: 'Endpoint ID is required' });
+        }
+
+        const endpoint = await webhookEndpoints.getEndpoint(endpointId, req.apiKey!.keyId);
+
+        if (!endpoint) {
+            return res.status(404).json({
+                success: false,
+                error: 'Endpoint not found',
+            });
+        }
+
+        return res.json({
+            success: true,
+            endpoint,
+        });
+    } catch (error) {
+        console.error('Error getting webhook endpoint:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to get webhook endpoint',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// PATCH /api/webhooks/endpoints/:endpointId - Change an endpoint's URL, events or enabled flag
+router.patch('/endpoints/:endpointId', apiKeyAuth, rateLimit('read'), requireScope('podcasts:write'), async (req: Request, res: Response) => {
+    try {
+        const endpointId = req.params.endpointId;
+        if (!endpointId) {
+            return res.status(400).json({ success: false, error: 'Endpoint ID is required' });
+        }
+
+        const validationResult = await updateEndpointSchema.safeParseAsync(req.body);
+
+        if (!validationResult.success) {
+            return res.status(400).json({
+                success: false,
+                error: 'Validation failed',
+                details: validationResult.error.issues,
+            });
+        }
+
+        const endpoint = await webhookEndpoints.updateEndpoint(endpointId, req.apiKey!.keyId, validationResult.data);
+
+        if (!endpoint) {
+            return res.status(404).json({
+                success: false,
+                error: 'Endpoint not found',
+            });
+        }
+
+        return res.json({
+            success: true,
+            endpoint,
+        });
+    } catch (error) {
+        console.error('Error updating webhook endpoint:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to update webhook endpoint',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// POST /api/webhooks/endpoints/:endpointId/rotate-secret - Replace an endpoint's signing secret
+router.post('/endpoints/:endpointId/rotate-secret', apiKeyAuth, rateLimit('read'), requireScope('podcasts:write'), async (req: Request, res: Response) => {
+    try {
+        const endpointId = req.params.endpointId;
+        if (!endpointId) {
+            return res.status(400).json({ success: false, error: 'Endpoint ID is required' });
+        }
+
+        const secret = await webhookEndpoints.rotateSecret(endpointId, req.apiKey!.keyId);
+
+        if (!secret) {
+            return res.status(404).json({
+                success: false,
+                error: 'Endpoint not found',
+            });
+        }
+
+        return res.json({
+            success: true,
+            endpointId,
+            secret,
+            message: 'Store the secret now; it is not shown again.',
+        });
+    } catch (error) {
+        console.error('Error rotating webhook endpoint secret:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to rotate webhook endpoint secret',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// DELETE /api/webhooks/endpoints/:endpointId - Delete an endpoint
+router.delete('/endpoints/:endpointId', apiKeyAuth, rateLimit('read'), requireScope('podcasts:write'), async (req: Request, res: Response) => {
+    try {
+        const endpointId = req.params.endpointId;
+        if (!endpointId) {
+            return res.status(400).json({ success: false, error: 'Endpoint ID is required' });
+        }
+
+        const deleted = await webhookEndpoints.deleteEndpoint(endpointId, req.apiKey!.keyId);
+
+        if (!deleted) {
+            return res.status(404).json({
+                success: false,
+                error: 'Endpoint not found',
+            });
+        }
+
+        return res.json({
+            success: true,
+            message: 'Endpoint deleted successfully',
+        });
+    } catch (error) {
+        console.error('Error deleting webhook endpoint:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to delete webhook endpoint',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// GET /api/webhooks/deliveries - List the caller's recent deliveries, newest first
+router.get('/deliveries', apiKeyAuth, rateLimit('read'), requireScope('podcasts:read'), async (req: Request, res: Response) => {
+    try {
+        const validationResult = listDeliveriesSchema.safeParse(req.query);
+
+        if (!validationResult.success) {
+            return res.status(400).json({
+                success: false,
+                error: 'Validation failed',
+                details: validationResult.error.issues,
+            });
+        }
+
+        const deliveries = await webhookDeliveries.listDeliveries(req.apiKey!.keyId, validationResult.data);
+
+        return res.json({
+            success: true,
+            count: deliveries.length,
+            deliveries,
+        });
+    } catch (error) {
+        console.error('Error listing webhook deliveries:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to list webhook deliveries',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// GET /api/webhooks/deliveries/:deliveryId - Get a delivery and its attempt log
+router.get('/deliveries/:deliveryId', apiKeyAuth, rateLimit('read'), requireScope('podcasts:read'), async (req: Request, res: Response) => {
+    try {
+        const deliveryId = req.params.deliveryId;
+        if (!deliveryId) {
+            return res.status(400).json({ success: false, error: 'Delivery ID is required' });
+        }
+
+        const delivery = await webhookDeliveries.getDelivery(deliveryId, req.apiKey!.keyId);
+
+        if (!delivery) {
+            return res.status(404).json({
+                success: false,
+                error: 'Delivery not found',
+            });
+        }
+
+        return res.json({
+            success: true,
+            delivery,
+        });
+    } catch (error) {
+        console.error('Error getting webhook delivery:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to get webhook delivery',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+// POST /api/webhooks/deliveries/:deliveryId/redeliver - Send a delivery again now
+router.post('/deliveries/:deliveryId/redeliver', apiKeyAuth, rateLimit('read'), requireScope('podcasts:write'), async (req: Request, res: Response) => {
+    try {
+        const deliveryId = req.params.deliveryId;
+        if (!deliveryId) {
+            return res.status(400).json({ success: false, error: 'Delivery ID is required' });
+        }
+
+        const delivery = await webhookDeliveries.redeliver(deliveryId, req.apiKey!.keyId);
+
+        if (!delivery) {
+            return res.status(404).json({
+                success: false,
+                error: 'Delivery not found',
+            });
+        }
+
+        return res.json({
+            success: true,
+            delivered: delivery.status === 'delivered',
+            delivery,
+        });
+    } catch (error) {
+        console.error('Error redelivering webhook:', error);
+        return res.status(500).json({
+            success: false,
+            error: 'Failed to redeliver webhook',
+            message: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+export default router;
@@ -0,0 +1,30 @@
+import express, { type Request, type Response } from 'express';
+import { getWorkerStatus } from '../services/jobProcessor.js';
+import { isDatabaseConnected } from '../config/database.js';
+
+const router = express.Router();
+
+// A worker whose claim loop hasn't run for this long is reported unhealthy
+const MIN_STALL_THRESHOLD_MS = 30000;
+
+// GET /health - Worker health (worker role only; the API has its own /api/podcast/health)
+router.get('/health', (req: Request, res: Response) => {
+    const worker = getWorkerStatus();
+    const database = isDatabaseConnected();
+
+    const stallThresholdMs = Math.max(MIN_STALL_THRESHOLD_MS, worker.pollIntervalMs * 3);
+    const polling = worker.lastPollAt !== undefined
+        && Date.now() - worker.lastPollAt.getTime() < stallThresholdMs;
+    const healthy = database && worker.running && polling;
+
+    res.status(healthy ? 200 : 503).json({
+        status: healthy ? 'ok' : 'unhealthy',
+        service: 'podcast-generator',
+        role: 'worker',
+        database: database ? 'connected' : 'disconnected',
+        worker,
+        timestamp: new Date().toISOString(),
+    });
+});
+
+export default router;
@@ -0,0 +1,159 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { ApiKey } from '../models/ApiKey.js';
+import type { ApiKeyAuthResult, ApiKeyRecord, CreateApiKeyRequest } from '../types/index.js';
+
+// Issued keys look like pk_<32 random characters>
+const KEY_PREFIX = 'pk_';
+
+// Characters of a key kept in plaintext so listings can show which key is which
+const DISPLAY_PREFIX_LENGTH = 10;
+
+// lastUsedAt is written at most this often per key, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Exclude internal fields from API responses (key hashes are never selected by default)
+const API_KEY_PROJECTION = { _id: 0, __v: 0 };
+
+// Keys are stored and looked up by their SHA-256. Issued keys carry 192 bits of
+// randomness, so a fast unsalted hash is enough; there is nothing to brute-force.
+export function hashApiKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
+// Compare two hex digests without leaking how much of them matched
+export function digestsEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a, 'hex');
+    const right = Buffer.from(b, 'hex');
+    return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function generateKey(): string {
+    return `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+}
+
+// A key's record as shown by the admin API
+function toRecord(apiKey: ApiKeyRecord & { keyHash?: string; previousKeyHash?: string }): ApiKeyRecord {
+    const { keyHash, previousKeyHash, ...record } = apiKey;
+    return record;
+}
+
+// API keys stored in MongoDB, hashed, with a tenant, plan, scopes and expiry
+class ApiKeyStore {
+    // Issue a key. The key itself is returned here only.
+    async createKey(request: CreateApiKeyRequest): Promise<{ apiKey: ApiKeyRecord; key: string }> {
+        const keyId = `key_${randomBytes(6).toString('hex')}`;
+        const key = generateKey();
+
+        const created = await ApiKey.create({
+            keyId,
+            ...request,
+            prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+            keyHash: hashApiKey(key),
+        });
+
+        console.log(`🔑 Created API key ${keyId} for tenant ${request.tenantId} (${request.scopes.join(', ')})`);
+
+        const { _id, __v, ...apiKey } = created.toObject();
+        return { apiKey: toRecord(apiKey), key };
+    }
+
+    // List keys, newest first
+    async listKeys(filter: { tenantId?: string; includeRevoked?: boolean }): Promise<ApiKeyRecord[]> {
+        const query: Record<string, unknown> = {};
+        if (filter.tenantId) {
+            query.tenantId = filter.tenantId;
+        }
+        if (!filter.includeRevoked) {
+            query.revokedAt = { $exists: false };
+        }
+
+        return ApiKey.find(query, API_KEY_PROJECTION)
+            .sort({ createdAt: -1 })
+            .lean<ApiKeyRecord[]>();
+    }
+
+    // Get key by ID
+    async getKey(keyId: string): Promise<ApiKeyRecord | null> {
+        return ApiKey.findOne({ keyId }, API_KEY_PROJECTION).lean<ApiKeyRecord>();
+    }
+
+    // Revoke a key immediately (including a previous key still in its grace period)
+    async revokeKey(keyId: string): Promise<ApiKeyRecord | null> {
+        const revoked = await ApiKey.findOneAndUpdate(
+            { keyId, revokedAt: { $exists: false } },
+            { $set: { revokedAt: new Date() } },
+            { new: true, projection: API_KEY_PROJECTION }
+        ).lean<ApiKeyRecord>();
+
+        if (revoked) {
+            console.log(`🚫 Revoked API key ${keyId}`);
+            return revoked;
+        }
+
+        // Already revoked, or unknown
+        return this.getKey(keyId);
+    }
+
+    // Replace a key's secret, keeping its keyId (and so everything it owns).
+    // The old key keeps working for gracePeriodMs so callers can switch over.
+    async rotateKey(keyId: string, gracePeriodMs: number): Promise<{ apiKey: ApiKeyRecord; key: string } | null> {
+        const key = generateKey();
+        const now = new Date();
+
+        const rotated = await ApiKey.findOneAndUpdate(
+            { keyId, revokedAt: { $exists: false } },
+            [{
+                $set: {
+                    previousKeyHash: '$keyHash',
+                    previousKeyExpiresAt: new Date(now.getTime() + gracePeriodMs),
+                    keyHash: hashApiKey(key),
+                    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+                    updatedAt: now,
+                },
+            }],
+            { new: true, projection: API_KEY_PROJECTION, updatePipeline: true }
+        ).lean<ApiKeyRecord>();
+
+        if (!rotated) {
+            return null;
+        }
+
+        console.log(`🔄 Rotated API key ${keyId} (old key valid until ${rotated.previousKeyExpiresAt?.toISOString()})`);
+        return { apiKey: rotated, key };
+    }
+
+    // Look up a presented key by its hash and check it is still usable
+    async authenticate(key: string): Promise<ApiKeyAuthResult> {
+        const keyHash = hashApiKey(key);
+        const now = new Date();
+
+        const apiKey = await ApiKey.findOne(
+            { $or: [{ keyHash }, { previousKeyHash: keyHash, previousKeyExpiresAt: { $gt: now } }] },
+            API_KEY_PROJECTION
+        ).select('+keyHash +previousKeyHash').lean<ApiKeyRecord & { keyHash: string; previousKeyHash?: string }>();
+
+        const matched = apiKey !== null && [apiKey.keyHash, apiKey.previousKeyHash]
+            .some(stored => stored !== undefined && digestsEqual(stored, keyHash));
+
+        if (!apiKey || !matched) {
+            return { valid: false, reason: 'unknown' };
+        }
+        if (apiKey.revokedAt) {
+            return { valid: false, reason: 'revoked' };
+        }
+        if (apiKey.expiresAt && apiKey.expiresAt <= now) {
+            return { valid: false, reason: 'expired' };
+        }
+
+        // Record usage without holding up the request
+        void ApiKey.updateOne(
+            { keyId: apiKey.keyId, $or: [{ lastUsedAt: { $exists: false } }, { lastUsedAt: { $lt: new Date(now.getTime() - LAST_USED_RESOLUTION_MS) } }] },
+            { $set: { lastUsedAt: now } }
+        ).catch(error => console.error(`Failed to record use of API key ${apiKey.keyId}:`, error));
+
+        return { valid: true, apiKey: toRecord(apiKey) };
+    }
+}
+
+// Singleton instance
+export const apiKeyStore = new ApiKeyStore();
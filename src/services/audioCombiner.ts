@@ -1,7 +1,7 @@
 import ffmpeg from 'fluent-ffmpeg';
 import ffmpegStatic from 'ffmpeg-static';
 import type { AudioSegment } from '../types/index.js';
-import { writeFileSync, unlinkSync, mkdtempSync } from 'fs';
+import { writeFileSync, mkdtempSync, rmSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 
@@ -10,13 +10,17 @@ if (ffmpegStatic) {
     ffmpeg.setFfmpegPath(ffmpegStatic);
 }
 
-export async function combineAudio(audioSegments: AudioSegment[]): Promise<{ audioBuffer: Buffer; totalDuration: number }> {
+export async function combineAudio(
+    audioSegments: AudioSegment[],
+    signal?: AbortSignal
+): Promise<{ audioBuffer: Buffer; totalDuration: number }> {
     // Create temporary directory
     const tempDir = mkdtempSync(join(tmpdir(), 'podcast-'));
     const tempFiles: string[] = [];
     const outputFile = join(tempDir, 'output.mp3');
 
     try {
+        signal?.throwIfAborted();
         console.log('Combining audio segments...');
 
         // Calculate total duration from all segments
@@ -41,6 +45,13 @@ export async function combineAudio(audioSegments: AudioSegment[]): Promise<{ aud
                 command = command.input(file);
             });
 
+            // Kill ffmpeg if the job is cancelled mid-merge
+            const onAbort = () => {
+                command.kill('SIGKILL');
+                reject(signal?.reason ?? new Error('Audio combination aborted'));
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+
             // Concatenate and output
             command
                 .on('start', (cmd) => {
@@ -52,10 +63,12 @@ export async function combineAudio(audioSegments: AudioSegment[]): Promise<{ aud
                     }
                 })
                 .on('end', () => {
+                    signal?.removeEventListener('abort', onAbort);
                     console.log('  ✓ Audio combination complete');
                     resolve();
                 })
                 .on('error', (err) => {
+                    signal?.removeEventListener('abort', onAbort);
                     console.error('FFmpeg error:', err);
                     reject(err);
                 })
@@ -74,21 +87,9 @@ export async function combineAudio(audioSegments: AudioSegment[]): Promise<{ aud
         console.error('Error combining audio:', error);
         throw new Error(`Failed to combine audio: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
-        // Cleanup temporary files
+        // Cleanup the temporary directory (ffmpeg has exited or been killed by now)
         try {
-            tempFiles.forEach(file => {
-                try {
-                    unlinkSync(file);
-                } catch (e) {
-                    // Ignore cleanup errors
-                }
-            });
-            try {
-                unlinkSync(outputFile);
-            } catch (e) {
-                // Ignore cleanup errors
-            }
-            // Note: We don't remove the temp directory itself as it might be in use
+            rmSync(tempDir, { recursive: true, force: true });
         } catch (error) {
             console.warn('Warning: Failed to cleanup some temporary files');
         }
@@ -1,6 +1,9 @@
-import type { DialogueSegment, AudioSegment } from '../types/index.js';
+import type { DialogueSegment, AudioSegment, PodcastSpeaker, VoiceConfig } from '../types/index.js';
 import { UnrealSpeechProvider } from './tts/unrealSpeech.js';
 import { ElevenLabsProvider } from './tts/elevenLabs.js';
+import { getVoiceWordsPerMinute } from './tts/base.js';
+import { providerMetrics } from './providerMetrics.js';
+import { getSpeakers } from './speakers.js';
 
 // Get TTS provider from environment variable
 const TTS_PROVIDER = (process.env.TTS_PROVIDER || 'unreal').toLowerCase();
@@ -10,8 +13,101 @@ const provider = TTS_PROVIDER === 'elevenlabs'
     ? new ElevenLabsProvider()
     : new UnrealSpeechProvider();
 
-console.log(`🎙️  TTS Provider: ${TTS_PROVIDER === 'elevenlabs' ? 'ElevenLabs' : 'Unreal Speech'}`);
+console.log(`🎙️  TTS Provider: ${provider.name}`);
 
-export async function generateAudio(dialogueSegments: DialogueSegment[]): Promise<AudioSegment[]> {
-    return provider.generateAudio(dialogueSegments);
+// Voice of every speaker: the one it chose, the provider's host or guest voice, or
+// the first pool voice nobody else uses (reused in turn once the pool runs out)
+export function resolveVoices(speakers: PodcastSpeaker[]): VoiceConfig {
+    const taken = new Set(speakers.flatMap(speaker => speaker.voice ?? provider.voices[speaker.id] ?? []));
+    const free = provider.voicePool.filter(voice => !taken.has(voice));
+    let next = 0;
+
+    return Object.fromEntries(speakers.map(speaker => {
+        const voice = speaker.voice
+            ?? provider.voices[speaker.id]
+            ?? free.shift()
+            ?? provider.voicePool[next++ % provider.voicePool.length]!;
+        return [speaker.id, voice];
+    }));
+}
+
+// Provider and voices used for new audio (part of a podcast's generation fingerprint)
+export function getTtsSettings(speakers: PodcastSpeaker[] = getSpeakers()): { provider: string; voices: VoiceConfig } {
+    return { provider: provider.name, voices: resolveVoices(speakers) };
+}
+
+// Speaking rate of a roster: the average rate of its voices
+export function getWordsPerMinute(speakers: PodcastSpeaker[] = getSpeakers()): number {
+    const rates = Object.values(resolveVoices(speakers)).map(voice => getVoiceWordsPerMinute(provider, voice));
+    return rates.reduce((sum, rate) => sum + rate, 0) / rates.length;
+}
+
+export interface GenerateAudioOptions {
+    // Roster the script was written for (defaults to the host and guest)
+    speakers?: PodcastSpeaker[];
+    signal?: AbortSignal;
+    // Segments synthesized by a previous attempt; generation resumes after them
+    completed?: AudioSegment[];
+    // Called after each newly synthesized segment (used for checkpointing)
+    onSegment?: (segment: AudioSegment, index: number) => Promise<void>;
+}
+
+export async function generateAudio(
+    dialogueSegments: DialogueSegment[],
+    options: GenerateAudioOptions = {}
+): Promise<AudioSegment[]> {
+    const { signal, completed = [], onSegment } = options;
+    const voices = resolveVoices(options.speakers ?? getSpeakers());
+
+    console.log(`[${provider.name}] Generating audio for ${dialogueSegments.length - completed.length} segments...`);
+
+    const audioSegments: AudioSegment[] = [...completed];
+    let cumulativeTime = completed[completed.length - 1]?.endTime ?? 0;
+
+    for (let i = completed.length; i < dialogueSegments.length; i++) {
+        // Stop before paying for more audio if the job was cancelled
+        signal?.throwIfAborted();
+
+        const segment = dialogueSegments[i];
+        if (!segment) continue;
+
+        const { speaker, text } = segment;
+
+        console.log(`[${i + 1}/${dialogueSegments.length}] Generating ${speaker} audio...`);
+
+        const voiceId = voices[speaker];
+        if (!voiceId) {
+            throw new Error(`Failed to generate audio: segment ${i + 1} has unknown speaker "${speaker}"`);
+        }
+
+        try {
+            const { audioBuffer, duration } = await providerMetrics.track('tts', provider.name, signal, () =>
+                provider.synthesize(segment, voiceId, signal));
+
+            const startTime = cumulativeTime;
+            const endTime = cumulativeTime + duration;
+
+            const audioSegment: AudioSegment = {
+                speaker,
+                text,
+                audioBuffer,
+                duration,
+                startTime,
+                endTime,
+            };
+            audioSegments.push(audioSegment);
+
+            cumulativeTime = endTime;
+
+            console.log(`  ✓ Generated ${duration.toFixed(2)}s of audio`);
+
+            await onSegment?.(audioSegment, i);
+        } catch (error) {
+            console.error(`Error generating audio for segment ${i + 1}:`, error);
+            throw new Error(`Failed to generate audio: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    console.log(`Total audio duration: ${cumulativeTime.toFixed(2)}s`);
+    return audioSegments;
 }
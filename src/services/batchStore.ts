@@ -0,0 +1,118 @@
+import { Batch, type IBatch } from '../models/Batch.js';
+import { Job } from '../models/Job.js';
+import type { BatchItem, BatchItemResult, BatchSummary, JobStatus, PodcastJob } from '../types/jobs.js';
+import { sendWebhook } from './webhook.js';
+
+// Job statuses that count as done for a batch
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+// Batch storage and aggregate status for many-note generation requests
+class BatchStore {
+    // Create a batch in the 'creating' state; call markEnqueued once its jobs exist
+    async createBatch(apiKeyId: string, tenantId: string): Promise<string> {
+        const batchId = `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        await Batch.create({ batchId, apiKeyId, tenantId, status: 'creating', items: [] });
+        console.log(`📦 Created batch: ${batchId}`);
+        return batchId;
+    }
+
+    // Record the items and start tracking completion
+    async markEnqueued(batchId: string, items: BatchItem[]): Promise<void> {
+        await Batch.updateOne({ batchId }, { $set: { items, status: 'processing' } });
+
+        // Every item may already be done (e.g. all reused)
+        await this.onJobFinished(batchId);
+    }
+
+    // Get a tenant's batch by ID
+    async getBatch(batchId: string, tenantId: string): Promise<IBatch | null> {
+        return Batch.findOne({ batchId, tenantId }).lean<IBatch>();
+    }
+
+    // Aggregate status of a tenant's batch
+    async getSummary(batchId: string, tenantId: string): Promise<BatchSummary | null> {
+        const batch = await this.getBatch(batchId, tenantId);
+        return batch ? this.summarize(batch) : null;
+    }
+
+    // Build the aggregate status of a batch from its jobs
+    private async summarize(batch: IBatch): Promise<BatchSummary> {
+        const { batchId } = batch;
+        const jobs = await Job.find(
+            { batchId },
+            { _id: 0, jobId: 1, status: 1, progress: 1, podcastId: 1, audioUrl: 1, audioDuration: 1, error: 1 }
+        ).lean<PodcastJob[]>();
+        const jobsById = new Map(jobs.map(job => [job.jobId, job]));
+
+        const counts: Record<JobStatus, number> = {
+            queued: 0,
+            processing: 0,
+            completed: 0,
+            failed: 0,
+            cancelled: 0,
+        };
+
+        const items: BatchItemResult[] = batch.items.map(item => {
+            const job = item.jobId ? jobsById.get(item.jobId) : undefined;
+
+            const result: BatchItemResult = item.reusedPodcastId
+                ? { ...item, status: 'completed', progress: 100, podcastId: item.reusedPodcastId }
+                : {
+                    ...item,
+                    status: job?.status ?? 'failed',
+                    progress: job?.progress ?? 0,
+                    podcastId: job?.podcastId,
+                    audioUrl: job?.audioUrl,
+                    audioDuration: job?.audioDuration,
+                    error: job ? job.error : item.error ?? 'Job no longer exists',
+                };
+
+            counts[result.status]++;
+            return result;
+        });
+
+        return {
+            batchId: batch.batchId,
+            status: batch.status,
+            total: items.length,
+            counts,
+            items,
+            createdAt: batch.createdAt,
+            completedAt: batch.completedAt,
+        };
+    }
+
+    // Called whenever a batch job finishes; completes the batch and sends
+    // batch.completed once every item is in a terminal state
+    async onJobFinished(batchId: string): Promise<void> {
+        const pending = await Job.countDocuments({ batchId, status: { $nin: FINISHED_STATUSES } });
+        if (pending > 0) {
+            return;
+        }
+
+        // Only one caller wins the transition, so the webhook is sent once
+        const batch = await Batch.findOneAndUpdate(
+            { batchId, status: 'processing' },
+            { $set: { status: 'completed', completedAt: new Date() } },
+            { new: true }
+        ).lean<IBatch>();
+        if (!batch) {
+            return;
+        }
+
+        console.log(`📦 Batch completed: ${batchId}`);
+
+        const summary = await this.summarize(batch);
+        await sendWebhook({
+            event: 'batch.completed',
+            batchId,
+            total: summary.total,
+            counts: summary.counts,
+            items: summary.items,
+            timestamp: new Date().toISOString(),
+        }, { apiKeyId: batch.apiKeyId });
+    }
+}
+
+// Singleton instance
+export const batchStore = new BatchStore();
@@ -0,0 +1,87 @@
+import {
+    PutObjectCommand,
+    GetObjectCommand,
+    ListObjectsV2Command,
+    DeleteObjectsCommand,
+} from '@aws-sdk/client-s3';
+import { s3Client } from './s3Uploader.js';
+
+// Intermediate job audio lives under this prefix so any worker can resume a job
+const CHECKPOINT_PREFIX = 'checkpoints';
+
+function getBucket(): string {
+    const bucket = process.env.S3_BUCKET_NAME;
+    if (!bucket) {
+        throw new Error('S3_BUCKET_NAME environment variable is not set');
+    }
+    return bucket;
+}
+
+// Save an intermediate audio file for a job and return its key
+export async function saveCheckpointAudio(
+    jobId: string,
+    name: string,
+    audioBuffer: Buffer,
+    signal?: AbortSignal
+): Promise<string> {
+    const key = `${CHECKPOINT_PREFIX}/${jobId}/${name}.mp3`;
+
+    try {
+        await s3Client.send(new PutObjectCommand({
+            Bucket: getBucket(),
+            Key: key,
+            Body: audioBuffer,
+            ContentType: 'audio/mpeg',
+        }), { abortSignal: signal });
+        return key;
+    } catch (error) {
+        console.error('Error saving checkpoint:', error);
+        throw new Error(`Failed to save checkpoint: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+// Load an intermediate audio file saved by saveCheckpointAudio
+export async function loadCheckpointAudio(key: string, signal?: AbortSignal): Promise<Buffer> {
+    try {
+        const response = await s3Client.send(new GetObjectCommand({
+            Bucket: getBucket(),
+            Key: key,
+        }), { abortSignal: signal });
+
+        if (!response.Body) {
+            throw new Error(`Checkpoint ${key} is empty`);
+        }
+
+        return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error) {
+        console.error('Error loading checkpoint:', error);
+        throw new Error(`Failed to load checkpoint: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+// Delete all intermediate files for a job
+export async function deleteCheckpoints(jobId: string): Promise<void> {
+    const bucket = getBucket();
+    let continuationToken: string | undefined;
+
+    do {
+        const listed = await s3Client.send(new ListObjectsV2Command({
+            Bucket: bucket,
+            Prefix: `${CHECKPOINT_PREFIX}/${jobId}/`,
+            ContinuationToken: continuationToken,
+        }));
+
+        const objects = (listed.Contents || [])
+            .filter(object => object.Key)
+            .map(object => ({ Key: object.Key! }));
+
+        if (objects.length > 0) {
+            await s3Client.send(new DeleteObjectsCommand({
+                Bucket: bucket,
+                Delete: { Objects: objects },
+            }));
+        }
+
+        continuationToken = listed.IsTruncated ? listed.NextContinuationToken : undefined;
+    } while (continuationToken);
+}
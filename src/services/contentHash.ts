@@ -0,0 +1,36 @@
+import { createHash } from 'crypto';
+import type { PodcastLength, PodcastStyle, VoiceConfig } from '../types/index.js';
+import { getTtsSettings } from './audioGenerator.js';
+import { getSpeakers } from './speakers.js';
+
+// Everything that determines what a generated podcast sounds like
+export interface GenerationFingerprint {
+    contentHash: string;
+    ttsProvider: string;
+    voices: VoiceConfig;
+}
+
+// Hash the note content together with the generation options, so an unchanged
+// note generated with the same settings can reuse an existing podcast
+export function getGenerationFingerprint(
+    noteContent: string,
+    length: PodcastLength,
+    style?: PodcastStyle
+): GenerationFingerprint {
+    const { provider, voices } = getTtsSettings(getSpeakers(style));
+
+    const contentHash = createHash('sha256')
+        .update(JSON.stringify({
+            noteContent,
+            duration: length.duration,
+            // Presets are identified by name alone, as before custom lengths existed
+            ...(length.duration === 'custom' && { targetMinutes: length.targetMinutes }),
+            ttsProvider: provider,
+            voices,
+            // Left out when unset so podcasts generated before styles existed still match
+            ...(style && { style }),
+        }))
+        .digest('hex');
+
+    return { contentHash, ttsProvider: provider, voices };
+}
@@ -0,0 +1,232 @@
+import { CreditLedgerEntry, type ICreditLedgerEntry } from '../models/CreditLedgerEntry.js';
+import { CreditUsage } from '../models/CreditUsage.js';
+import { getGenerationCredits, getPlan } from '../config/plans.js';
+import type {
+    CreditBalance,
+    CreditEntryType,
+    DurationUsage,
+    PlanName,
+    PodcastDuration,
+    UsageSummary,
+} from '../types/index.js';
+
+// Thrown when a debit would take a tenant past an allowance that has no overage
+export class InsufficientCreditsError extends Error {
+    constructor(public readonly balance: CreditBalance, public readonly required: number) {
+        super(
+            `This request needs ${required} credit${required === 1 ? '' : 's'} but ${balance.remaining} of the ` +
+            `${balance.allowance} monthly credits on the ${balance.plan} plan remain. ` +
+            `The allowance resets at ${balance.resetsAt.toISOString()}.`
+        );
+        this.name = 'InsufficientCreditsError';
+    }
+}
+
+export interface CreditDebitRequest {
+    tenantId: string;
+    apiKeyId?: string;
+    plan: PlanName;
+    duration: PodcastDuration;
+    targetMinutes: number;
+    noteId: string;
+    jobId?: string;
+}
+
+// A debit that can later be refunded by its entryId
+export interface CreditCharge {
+    entryId: string;
+    credits: number;
+    period: string;
+}
+
+// Billing periods are calendar months in UTC, written YYYY-MM
+export function getBillingPeriod(date: Date = new Date()): string {
+    return date.toISOString().slice(0, 7);
+}
+
+// First instant of the period after the given one
+export function getPeriodEnd(period: string): Date {
+    const [year, month] = period.split('-').map(Number);
+    return new Date(Date.UTC(year!, month!, 1));
+}
+
+function generateEntryId(): string {
+    return `cred_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function emptyDurationUsage(): DurationUsage {
+    return { generations: 0, refunded: 0, credits: 0 };
+}
+
+// Generation credit ledger per tenant: every debit and refund is an entry, and a
+// per-period counter holds the running total used to enforce plan allowances
+class CreditLedger {
+    // Charge the credits for one generation. Throws InsufficientCreditsError if the
+    // plan's allowance is used up and the plan doesn't allow overage.
+    async debit(request: CreditDebitRequest): Promise<CreditCharge> {
+        const plan = getPlan(request.plan);
+        const credits = getGenerationCredits(request.targetMinutes);
+        const now = new Date();
+        const period = getBillingPeriod(now);
+
+        await this.ensureUsage(request.tenantId, period);
+
+        const usage = await CreditUsage.findOneAndUpdate(
+            plan.allowOverage
+                ? { tenantId: request.tenantId, period }
+                : { tenantId: request.tenantId, period, used: { $lte: plan.monthlyCredits - credits } },
+            { $inc: { used: credits }, $set: { updatedAt: now } },
+            { new: true }
+        ).lean<{ used: number }>();
+
+        if (!usage) {
+            throw new InsufficientCreditsError(await this.getBalance(request.tenantId, request.plan, period), credits);
+        }
+
+        const entryId = generateEntryId();
+        const overageCredits = Math.min(credits, Math.max(0, usage.used - plan.monthlyCredits));
+
+        try {
+            await CreditLedgerEntry.create({
+                entryId,
+                tenantId: request.tenantId,
+                apiKeyId: request.apiKeyId,
+                type: 'debit',
+                credits,
+                duration: request.duration,
+                targetMinutes: request.targetMinutes,
+                period,
+                overageCredits: overageCredits > 0 ? overageCredits : undefined,
+                noteId: request.noteId,
+                jobId: request.jobId,
+                createdAt: now,
+            });
+        } catch (error) {
+            // Give the credits back so the counter matches the ledger
+            await this.adjustUsage(request.tenantId, period, -credits);
+            throw error;
+        }
+
+        const overage = overageCredits > 0 ? ` (${overageCredits} overage)` : '';
+        console.log(`💳 Debited ${credits} credit${credits === 1 ? '' : 's'} from tenant ${request.tenantId}${overage}`);
+
+        return { entryId, credits, period };
+    }
+
+    // Reverse a debit. Returns false if it doesn't exist or was already refunded.
+    async refund(entryId: string, reason: string): Promise<boolean> {
+        const debit = await CreditLedgerEntry.findOne({ entryId, type: 'debit' }).lean<ICreditLedgerEntry>();
+        if (!debit) {
+            return false;
+        }
+
+        try {
+            await CreditLedgerEntry.create({
+                entryId: generateEntryId(),
+                tenantId: debit.tenantId,
+                apiKeyId: debit.apiKeyId,
+                type: 'refund',
+                credits: debit.credits,
+                duration: debit.duration,
+                targetMinutes: debit.targetMinutes,
+                period: debit.period,
+                noteId: debit.noteId,
+                jobId: debit.jobId,
+                refundOf: entryId,
+                reason,
+            });
+        } catch (error) {
+            // The unique refundOf index means another process refunded it first
+            if ((error as { code?: number }).code === 11000) {
+                return false;
+            }
+            throw error;
+        }
+
+        await this.adjustUsage(debit.tenantId, debit.period, -debit.credits);
+
+        console.log(`💳 Refunded ${debit.credits} credit${debit.credits === 1 ? '' : 's'} to tenant ${debit.tenantId} (${reason})`);
+        return true;
+    }
+
+    // Whether a debit has been refunded
+    async isRefunded(entryId: string): Promise<boolean> {
+        return (await CreditLedgerEntry.exists({ refundOf: entryId })) !== null;
+    }
+
+    // Credits used and remaining in a period (the current one by default)
+    async getBalance(tenantId: string, planName: PlanName, period: string = getBillingPeriod()): Promise<CreditBalance> {
+        const plan = getPlan(planName);
+        const usage = await CreditUsage.findOne({ tenantId, period }).lean<{ used: number }>();
+        const used = usage?.used ?? 0;
+
+        return {
+            period,
+            plan: plan.name,
+            allowance: plan.monthlyCredits,
+            used,
+            remaining: Math.max(0, plan.monthlyCredits - used),
+            overageCredits: Math.max(0, used - plan.monthlyCredits),
+            allowOverage: plan.allowOverage,
+            resetsAt: getPeriodEnd(period),
+        };
+    }
+
+    // Balance plus debit and refund totals, overall and per podcast duration
+    async getUsage(tenantId: string, planName: PlanName, period: string = getBillingPeriod()): Promise<UsageSummary> {
+        const [balance, groups] = await Promise.all([
+            this.getBalance(tenantId, planName, period),
+            CreditLedgerEntry.aggregate<{ _id: { type: CreditEntryType; duration: PodcastDuration }; count: number; credits: number }>([
+                { $match: { tenantId, period } },
+                { $group: { _id: { type: '$type', duration: '$duration' }, count: { $sum: 1 }, credits: { $sum: '$credits' } } },
+            ]),
+        ]);
+
+        const totals = { generations: 0, refunded: 0, debitedCredits: 0, refundedCredits: 0 };
+        const byDuration: Record<PodcastDuration, DurationUsage> = {
+            short: emptyDurationUsage(),
+            long: emptyDurationUsage(),
+            custom: emptyDurationUsage(),
+        };
+
+        for (const { _id, count, credits } of groups) {
+            const usage = byDuration[_id.duration];
+            if (_id.type === 'debit') {
+                usage.generations += count;
+                usage.credits += credits;
+                totals.generations += count;
+                totals.debitedCredits += credits;
+            } else {
+                usage.refunded += count;
+                usage.credits -= credits;
+                totals.refunded += count;
+                totals.refundedCredits += credits;
+            }
+        }
+
+        return { ...balance, totals, byDuration };
+    }
+
+    // Create the period's counter if this is the tenant's first debit in it
+    private async ensureUsage(tenantId: string, period: string): Promise<void> {
+        try {
+            await CreditUsage.updateOne(
+                { tenantId, period },
+                { $setOnInsert: { used: 0 } },
+                { upsert: true }
+            );
+        } catch (error) {
+            // Concurrent upserts can race on the unique index; the counter exists either way
+            if ((error as { code?: number }).code !== 11000) {
+                throw error;
+            }
+        }
+    }
+
+    private async adjustUsage(tenantId: string, period: string, credits: number): Promise<void> {
+        await CreditUsage.updateOne({ tenantId, period }, { $inc: { used: credits }, $set: { updatedAt: new Date() } });
+    }
+}
+
+// Singleton instance
+export const creditLedger = new CreditLedger();
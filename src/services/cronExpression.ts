@@ -0,0 +1,168 @@
+// Minimal 5-field cron support (minute hour day-of-month month day-of-week),
+// evaluated in an IANA time zone. Supports *, lists, ranges and steps.
+
+export interface CronExpression {
+    minutes: number[];
+    hours: number[];
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    // When both day fields are restricted a day matches if either does (standard cron).
+    // A field starting with * (including a step like */2) counts as unrestricted.
+    daysOfMonthRestricted: boolean;
+    daysOfWeekRestricted: boolean;
+}
+
+export class CronParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CronParseError';
+    }
+}
+
+// How far ahead to look for the next run (covers Feb 29 schedules)
+const MAX_LOOKAHEAD_DAYS = 366 * 5;
+
+function parseField(field: string, min: number, max: number, name: string): number[] {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const [range, stepText] = part.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (!range || !Number.isInteger(step) || step < 1) {
+            throw new CronParseError(`Invalid ${name} field: "${field}"`);
+        }
+
+        let start = min;
+        let end = max;
+        if (range !== '*') {
+            const [startText, endText] = range.split('-');
+            start = Number(startText);
+            // "5/15" means every 15 starting at 5
+            end = endText !== undefined ? Number(endText) : stepText !== undefined ? max : start;
+        }
+
+        if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+            throw new CronParseError(`Invalid ${name} field: "${field}"`);
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return [...values].sort((a, b) => a - b);
+}
+
+export function parseCron(expression: string): CronExpression {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new CronParseError('Cron expression must have 5 fields: minute hour day-of-month month day-of-week');
+    }
+
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [string, string, string, string, string];
+
+    return {
+        minutes: parseField(minute, 0, 59, 'minute'),
+        hours: parseField(hour, 0, 23, 'hour'),
+        daysOfMonth: new Set(parseField(dayOfMonth, 1, 31, 'day-of-month')),
+        months: new Set(parseField(month, 1, 12, 'month')),
+        // 0 and 7 are both Sunday
+        daysOfWeek: new Set(parseField(dayOfWeek, 0, 7, 'day-of-week').map(day => day % 7)),
+        daysOfMonthRestricted: !dayOfMonth.startsWith('*'),
+        daysOfWeekRestricted: !dayOfWeek.startsWith('*'),
+    };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Wall-clock fields of an instant in a time zone
+function getZonedParts(date: Date, timeZone: string) {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+    }).formatToParts(date);
+
+    const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+
+    return {
+        year: get('year'),
+        month: get('month'),
+        day: get('day'),
+        hour: get('hour'),
+        minute: get('minute'),
+    };
+}
+
+// Offset of the time zone from UTC at an instant, in milliseconds
+function getOffsetMs(timestamp: number, timeZone: string): number {
+    const parts = getZonedParts(new Date(timestamp), timeZone);
+    const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+    return asUtc - Math.floor(timestamp / 60000) * 60000;
+}
+
+// Instant at which the wall clock in the time zone shows the given time
+function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+    let timestamp = wallClock - getOffsetMs(wallClock, timeZone);
+
+    // Re-check once in case the offset changes between the guess and the result (DST)
+    const offset = getOffsetMs(timestamp, timeZone);
+    timestamp = wallClock - offset;
+
+    return new Date(timestamp);
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+        return false;
+    }
+
+    const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+    const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+
+    if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+        return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+}
+
+// First run strictly after `after`, or null if the expression never matches
+export function getNextRun(cron: CronExpression, after: Date, timeZone: string): Date | null {
+    const start = getZonedParts(after, timeZone);
+
+    for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+        // Calendar arithmetic on a UTC date carrying the zone's wall-clock date
+        const day = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+        if (!matchesDay(cron, day)) {
+            continue;
+        }
+
+        for (const hour of cron.hours) {
+            for (const minute of cron.minutes) {
+                if (offset === 0 && (hour < start.hour || (hour === start.hour && minute <= start.minute))) {
+                    continue;
+                }
+
+                const run = zonedTimeToUtc(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), hour, minute, timeZone);
+                if (run > after) {
+                    return run;
+                }
+            }
+        }
+    }
+
+    return null;
+}
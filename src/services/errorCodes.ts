@@ -0,0 +1,15 @@
+import type { PodcastErrorCode } from '../types/index.js';
+import type { JobStage } from '../types/jobs.js';
+
+// Error code recorded when a pipeline stage fails
+const STAGE_ERROR_CODES: Record<JobStage, PodcastErrorCode> = {
+    script: 'script_generation_failed',
+    audio: 'audio_generation_failed',
+    combine: 'audio_combine_failed',
+    upload: 'upload_failed',
+};
+
+// Failures outside a stage (e.g. database errors) are reported as internal errors
+export function getErrorCode(stage?: JobStage): PodcastErrorCode {
+    return stage ? STAGE_ERROR_CODES[stage] : 'internal_error';
+}
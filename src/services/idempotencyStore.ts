@@ -0,0 +1,91 @@
+import { IdempotencyKey, type IIdempotencyKey } from '../models/IdempotencyKey.js';
+
+// How long a key (and its stored response) is remembered
+const KEY_TTL_MS = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24') * 60 * 60 * 1000;
+
+// A request that hasn't finished after this long is assumed to have died with its process
+const IN_PROGRESS_TIMEOUT_MS = 10 * 60 * 1000;
+
+export type BeginResult =
+    | { outcome: 'started' }
+    | { outcome: 'mismatch' }
+    | { outcome: 'in_progress' }
+    | { outcome: 'replay'; statusCode: number; responseBody: unknown };
+
+export class IdempotencyStore {
+    // Reserve a key for a request, or report what happened to an earlier request with it
+    async begin(apiKeyId: string, key: string, requestHash: string): Promise<BeginResult> {
+        const now = new Date();
+
+        try {
+            await IdempotencyKey.create({
+                apiKeyId,
+                key,
+                requestHash,
+                createdAt: now,
+                expiresAt: new Date(now.getTime() + KEY_TTL_MS),
+            });
+            return { outcome: 'started' };
+        } catch (error) {
+            if ((error as { code?: number }).code !== 11000) {
+                throw error;
+            }
+        }
+
+        const existing = await IdempotencyKey.findOne({ apiKeyId, key }).lean<IIdempotencyKey>();
+        if (!existing) {
+            // Expired between the insert and the lookup; let the caller try again
+            return { outcome: 'in_progress' };
+        }
+
+        // The TTL index only sweeps periodically, so an expired key can linger. It no
+        // longer counts: take it over as if it were missing.
+        if (existing.expiresAt <= now) {
+            const replaced = await IdempotencyKey.updateOne(
+                { apiKeyId, key, expiresAt: { $lte: now } },
+                {
+                    $set: { requestHash, createdAt: now, expiresAt: new Date(now.getTime() + KEY_TTL_MS) },
+                    $unset: { statusCode: '', responseBody: '' },
+                }
+            );
+            return replaced.modifiedCount > 0 ? { outcome: 'started' } : { outcome: 'in_progress' };
+        }
+
+        if (existing.requestHash !== requestHash) {
+            return { outcome: 'mismatch' };
+        }
+
+        if (existing.statusCode !== undefined) {
+            return { outcome: 'replay', statusCode: existing.statusCode, responseBody: existing.responseBody };
+        }
+
+        // Take over a reservation abandoned by a crashed request
+        const reclaimed = await IdempotencyKey.updateOne(
+            {
+                apiKeyId,
+                key,
+                statusCode: { $exists: false },
+                createdAt: { $lt: new Date(now.getTime() - IN_PROGRESS_TIMEOUT_MS) },
+            },
+            { $set: { createdAt: now } }
+        );
+
+        return reclaimed.modifiedCount > 0 ? { outcome: 'started' } : { outcome: 'in_progress' };
+    }
+
+    // Store the response so repeated requests get the same answer
+    async complete(apiKeyId: string, key: string, statusCode: number, responseBody: unknown): Promise<void> {
+        await IdempotencyKey.updateOne(
+            { apiKeyId, key },
+            { $set: { statusCode, responseBody } }
+        );
+    }
+
+    // Forget a key whose request failed on our side, so the client can retry it
+    async release(apiKeyId: string, key: string): Promise<void> {
+        await IdempotencyKey.deleteOne({ apiKeyId, key, statusCode: { $exists: false } });
+    }
+}
+
+// Export singleton instance
+export const idempotencyStore = new IdempotencyStore();
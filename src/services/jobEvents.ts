@@ -0,0 +1,51 @@
+import { EventEmitter } from 'events';
+import { Job } from '../models/Job.js';
+import { JobEvent } from '../models/JobEvent.js';
+import type { JobEventType, JobEventRecord } from '../types/jobs.js';
+
+// Per-job event log stored in MongoDB, so streams work when the worker runs in another process
+class JobEvents {
+    // Wakes up listeners in this process as soon as an event is stored
+    private emitter = new EventEmitter().setMaxListeners(0);
+
+    // Record an event for a job. Failures are logged, never thrown, so they can't break a job.
+    async publish(jobId: string, type: JobEventType, data: Record<string, unknown> = {}): Promise<void> {
+        try {
+            const job = await Job.findOneAndUpdate(
+                { jobId },
+                { $inc: { eventSeq: 1 } },
+                { new: true, projection: { eventSeq: 1 } }
+            ).lean<{ eventSeq: number }>();
+
+            if (!job) {
+                return;
+            }
+
+            await JobEvent.create({ jobId, seq: job.eventSeq, type, data });
+            this.emitter.emit(jobId);
+        } catch (error) {
+            console.error(`Failed to publish ${type} event for job ${jobId}:`, error);
+        }
+    }
+
+    // Get events for a job after the given sequence number
+    async getEventsSince(jobId: string, afterSeq = 0): Promise<JobEventRecord[]> {
+        return JobEvent.find(
+            { jobId, seq: { $gt: afterSeq } },
+            { _id: 0, seq: 1, type: 1, data: 1, createdAt: 1 }
+        )
+            .sort({ seq: 1 })
+            .lean<JobEventRecord[]>();
+    }
+
+    // Listen for events published by this process; returns an unsubscribe function
+    subscribe(jobId: string, listener: () => void): () => void {
+        this.emitter.on(jobId, listener);
+        return () => {
+            this.emitter.off(jobId, listener);
+        };
+    }
+}
+
+// Singleton instance
+export const jobEvents = new JobEvents();
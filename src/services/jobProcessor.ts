@@ -1,71 +1,299 @@
-import type { PodcastJob } from '../types/jobs.js';
-import { jobQueue } from './jobQueue.js';
+import { hostname } from 'os';
+import { setTimeout as sleep } from 'timers/promises';
+import type { AudioSegment } from '../types/index.js';
+import type { PodcastJob, JobStage, JobCheckpoint, CheckpointSegment } from '../types/jobs.js';
+import { jobQueue, JobNotHeldError } from './jobQueue.js';
+import { jobEvents } from './jobEvents.js';
 import { generateScript } from './scriptGenerator.js';
 import { generateAudio } from './audioGenerator.js';
 import { combineAudio } from './audioCombiner.js';
 import { uploadToS3 } from './s3Uploader.js';
 import { podcastDb } from './podcastDatabase.js';
-import { sendWebhook } from './webhook.js';
+import { sendCancelledWebhooks, sendWebhook, type WebhookContext } from './webhook.js';
+import { getGenerationFingerprint } from './contentHash.js';
+import { getErrorCode } from './errorCodes.js';
+import { getSpeakers } from './speakers.js';
+import { getPodcastLength } from './podcastLength.js';
+import { saveCheckpointAudio, loadCheckpointAudio, deleteCheckpoints } from './checkpointStore.js';
+import { workerRegistry, WORKER_STALE_AFTER_MS } from './workerRegistry.js';
+import { WorkerShutdownError } from './shutdown.js';
 
-export async function processJob(job: PodcastJob): Promise<void> {
-    const { jobId, noteId, noteContent, userId, duration } = job;
+// How often idle workers check the queue for new jobs
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000');
 
+// How often this worker reports itself and its running jobs as alive
+const HEARTBEAT_INTERVAL_MS = parseInt(process.env.JOB_HEARTBEAT_INTERVAL_MS || '10000');
+
+// Maximum number of jobs this process runs at the same time
+const WORKER_CONCURRENCY = Math.max(1, parseInt(process.env.WORKER_CONCURRENCY || '4'));
+
+// Attempts per stage before a job is marked failed; the delay doubles after each failure
+const STAGE_MAX_ATTEMPTS = Math.max(1, parseInt(process.env.JOB_STAGE_MAX_ATTEMPTS || '3'));
+const STAGE_RETRY_BASE_DELAY_MS = parseInt(process.env.JOB_STAGE_RETRY_BASE_DELAY_MS || '2000');
+
+// Unique per process so claimed jobs can be traced back to their worker
+export const WORKER_ID = `${hostname()}:${process.pid}`;
+
+// What happens to jobs still running when the shutdown grace period ends:
+// 'requeue' hands them (and their checkpoints) to another worker, 'fail' marks them failed
+const INTERRUPTED_JOB_ACTION = process.env.SHUTDOWN_INTERRUPTED_JOB_ACTION === 'fail' ? 'fail' : 'requeue';
+
+// How long aborted jobs get to clean up (kill ffmpeg, remove temp files) before exit
+const ABORT_CLEANUP_TIMEOUT_MS = 10000;
+
+// A job running in this process: the controller used to abort it and its processing promise
+interface ActiveJob {
+    controller: AbortController;
+    done: Promise<void>;
+}
+
+// Jobs running in this process, keyed by jobId
+const activeJobs = new Map<string, ActiveJob>();
+
+// Claim loop and heartbeat timers, cleared when the processor stops
+let claimInterval: ReturnType<typeof setInterval> | undefined;
+let heartbeatInterval: ReturnType<typeof setInterval> | undefined;
+
+// Reported by the worker health check
+let startedAt: Date | undefined;
+let lastPollAt: Date | undefined;
+
+// Run a pipeline stage, retrying with exponential backoff on failure
+async function runStage<T>(
+    jobId: string,
+    stage: JobStage,
+    signal: AbortSignal | undefined,
+    run: () => Promise<T>
+): Promise<T> {
+    await jobEvents.publish(jobId, 'stage', { stage, status: 'started' });
+    const startedAt = new Date();
+
+    // Timings are for monitoring only, so failing to save them doesn't fail the stage
+    const recordTiming = (status: 'completed' | 'failed', attempts: number) => {
+        const finishedAt = new Date();
+        return jobQueue.recordStageTiming(jobId, WORKER_ID, stage, {
+            startedAt,
+            finishedAt,
+            durationMs: finishedAt.getTime() - startedAt.getTime(),
+            attempts,
+            status,
+        }).catch(error => console.error(`Failed to record ${stage} timing for job ${jobId}:`, error));
+    };
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            const result = await run();
+            await recordTiming('completed', attempt);
+            await jobEvents.publish(jobId, 'stage', { stage, status: 'completed', attempt });
+            return result;
+        } catch (error) {
+            if (signal?.aborted || attempt >= STAGE_MAX_ATTEMPTS) {
+                if (!signal?.aborted) {
+                    await recordTiming('failed', attempt);
+                }
+                throw error;
+            }
+
+            const delay = STAGE_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            console.warn(`⚠️  Job ${jobId}: ${stage} stage failed (attempt ${attempt}/${STAGE_MAX_ATTEMPTS}), retrying in ${delay}ms - ${message}`);
+
+            await jobQueue.updateJob(jobId, WORKER_ID, {
+                currentStep: `Retrying ${stage} stage (attempt ${attempt + 1}/${STAGE_MAX_ATTEMPTS})...`,
+            });
+            await jobEvents.publish(jobId, 'stage', { stage, status: 'retrying', attempt, delayMs: delay, error: message });
+            await sleep(delay, undefined, { signal });
+        }
+    }
+}
+
+// Webhook destinations of a job besides WEBHOOK_URL
+function getWebhookContext(job: PodcastJob): WebhookContext {
+    return { apiKeyId: job.apiKeyId, callbackUrl: job.callbackUrl };
+}
+
+// Tell subscribers a stage finished, without holding up the pipeline
+function notifyProgress(job: PodcastJob, podcastId: string, stage: JobStage, progress: number): void {
+    void sendWebhook({
+        event: 'podcast.progress',
+        jobId: job.jobId,
+        noteId: job.noteId,
+        userId: job.userId,
+        podcastId,
+        stage,
+        progress,
+        timestamp: new Date().toISOString(),
+    }, getWebhookContext(job));
+}
+
+// Rebuild in-memory audio segments from their checkpointed audio
+async function loadSegmentAudio(segments: CheckpointSegment[], signal?: AbortSignal): Promise<AudioSegment[]> {
+    return Promise.all(segments.map(async ({ audioKey, ...segment }) => ({
+        ...segment,
+        audioBuffer: await loadCheckpointAudio(audioKey, signal),
+    })));
+}
+
+// Remove checkpoint audio and data once a job can no longer be resumed
+async function discardCheckpoints(jobId: string): Promise<void> {
     try {
-        // Mark as processing
-        jobQueue.startJob(jobId);
+        await deleteCheckpoints(jobId);
+        await jobQueue.clearCheckpoint(jobId);
+    } catch (error) {
+        console.error(`Failed to discard checkpoints for job ${jobId}:`, error);
+    }
+}
 
-        // Create podcast record in database
-        jobQueue.updateProgress(jobId, 5, 'Creating database record...');
-        const podcast = await podcastDb.createPodcast({
-            noteId,
-            userId,
-            noteContent,
-            duration,
-        });
-        const podcastId = podcast._id.toString();
+export async function processJob(job: PodcastJob, signal?: AbortSignal): Promise<void> {
+    const { jobId, noteId, noteContent, userId } = job;
+    const length = getPodcastLength(job);
+    const { duration, targetMinutes } = length;
+    const checkpoint: JobCheckpoint = { ...job.checkpoint };
+    const segments: CheckpointSegment[] = [...(checkpoint.segments || [])];
+    let podcastId = job.podcastId;
+    let stage: JobStage | undefined;
+
+    try {
+        // Jobs queued before podcasts were created with their job have no record yet
+        if (!podcastId) {
+            const podcast = await podcastDb.createPodcast({
+                tenantId: job.tenantId,
+                jobId,
+                noteId,
+                userId,
+                noteContent,
+                duration,
+                targetMinutes,
+                style: job.style,
+                ...getGenerationFingerprint(noteContent, length, job.style),
+            });
+            podcastId = podcast._id.toString();
+            await jobQueue.updateJob(jobId, WORKER_ID, { podcastId });
+        }
+
+        await jobQueue.updateProgress(jobId, WORKER_ID, 5, checkpoint.dialogue
+            ? 'Resuming from last checkpoint...'
+            : 'Starting generation...');
+        await podcastDb.updatePodcast(podcastId, { status: 'generating' });
 
         // Step 1: Generate script (0-25%)
-        jobQueue.updateProgress(jobId, 10, 'Generating podcast script...');
-        const dialogue = await generateScript(noteContent, duration);
-        jobQueue.updateProgress(jobId, 25, `Generated ${dialogue.length} dialogue segments`);
+        stage = 'script';
+        let dialogue = checkpoint.dialogue;
+        if (!dialogue) {
+            await jobQueue.updateProgress(jobId, WORKER_ID, 10, 'Generating podcast script...');
+            dialogue = await runStage(jobId, stage, signal, () => generateScript(noteContent, length, { style: job.style, signal }));
+            await jobQueue.saveCheckpoint(jobId, WORKER_ID, { dialogue });
+        }
+        await jobQueue.updateProgress(jobId, WORKER_ID, 25, `Generated ${dialogue.length} dialogue segments`);
+        notifyProgress(job, podcastId, stage, 25);
 
-        // Step 2: Generate audio (25-60%)
-        jobQueue.updateProgress(jobId, 30, 'Generating audio for each segment...');
-        const audioSegments = await generateAudio(dialogue);
-        jobQueue.updateProgress(jobId, 60, `Generated ${audioSegments.length} audio segments`);
+        // Step 2: Generate audio (25-60%), checkpointing every segment
+        stage = 'audio';
+        let audioSegments: AudioSegment[] = [];
+        if (!checkpoint.combinedAudioKey) {
+            const script = dialogue;
+            await jobQueue.updateProgress(jobId, WORKER_ID, 30, segments.length > 0
+                ? `Resuming audio at segment ${segments.length + 1}/${script.length}...`
+                : 'Generating audio for each segment...');
+
+            audioSegments = await runStage(jobId, stage, signal, async () => {
+                // Reload audio saved by an earlier attempt
+                if (audioSegments.length < segments.length) {
+                    audioSegments = await loadSegmentAudio(segments, signal);
+                }
+
+                return generateAudio(script, {
+                    speakers: getSpeakers(job.style),
+                    signal,
+                    completed: audioSegments,
+                    onSegment: async (segment, index) => {
+                        const { audioBuffer, ...timing } = segment;
+                        const audioKey = await saveCheckpointAudio(jobId, `segment-${index}`, audioBuffer, signal);
+                        const saved = { ...timing, audioKey };
+
+                        await jobQueue.addCheckpointSegment(jobId, WORKER_ID, saved);
+                        segments.push(saved);
+                        audioSegments.push(segment);
+
+                        // Per-segment progress within the 30-60% audio range
+                        await jobEvents.publish(jobId, 'segment', {
+                            index,
+                            total: script.length,
+                            speaker: segment.speaker,
+                            duration: segment.duration,
+                        });
+                        await jobQueue.updateProgress(
+                            jobId,
+                            WORKER_ID,
+                            30 + Math.round((30 * (index + 1)) / script.length),
+                            `Generated audio for segment ${index + 1}/${script.length}`
+                        );
+                    },
+                });
+            });
+            await jobQueue.updateProgress(jobId, WORKER_ID, 60, `Generated ${audioSegments.length} audio segments`);
+            notifyProgress(job, podcastId, stage, 60);
+        }
 
         // Step 3: Combine audio (60-75%)
-        jobQueue.updateProgress(jobId, 65, 'Combining audio segments...');
-        const combinedAudio = await combineAudio(audioSegments);
-        const audioBuffer = combinedAudio.audioBuffer;
-        const totalDuration = combinedAudio.totalDuration;
-        jobQueue.updateProgress(jobId, 75, 'Audio combined successfully');
+        stage = 'combine';
+        let audioBuffer: Buffer | undefined;
+        if (!checkpoint.combinedAudioKey) {
+            await jobQueue.updateProgress(jobId, WORKER_ID, 65, 'Combining audio segments...');
+            const combinedAudio = await runStage(jobId, stage, signal, async () => {
+                const combined = await combineAudio(audioSegments, signal);
+                const combinedAudioKey = await saveCheckpointAudio(jobId, 'combined', combined.audioBuffer, signal);
+                return { ...combined, combinedAudioKey };
+            });
+
+            audioBuffer = combinedAudio.audioBuffer;
+            checkpoint.combinedAudioKey = combinedAudio.combinedAudioKey;
+            checkpoint.totalDuration = combinedAudio.totalDuration;
+            await jobQueue.saveCheckpoint(jobId, WORKER_ID, {
+                combinedAudioKey: checkpoint.combinedAudioKey,
+                totalDuration: checkpoint.totalDuration,
+            });
+            await jobQueue.updateProgress(jobId, WORKER_ID, 75, 'Audio combined successfully');
+            notifyProgress(job, podcastId, stage, 75);
+        }
+        const totalDuration = checkpoint.totalDuration ?? 0;
 
         // Step 4: Upload to S3 (75-90%)
-        jobQueue.updateProgress(jobId, 80, 'Uploading to S3...');
-        const audioUrl = await uploadToS3(audioBuffer, noteId);
-        jobQueue.updateProgress(jobId, 90, 'Upload complete');
+        stage = 'upload';
+        let audioUrl = checkpoint.audioUrl;
+        if (!audioUrl) {
+            const combinedAudioKey = checkpoint.combinedAudioKey;
+            await jobQueue.updateProgress(jobId, WORKER_ID, 80, 'Uploading to S3...');
+            audioUrl = await runStage(jobId, stage, signal, async () => {
+                audioBuffer ??= await loadCheckpointAudio(combinedAudioKey!, signal);
+                return uploadToS3(audioBuffer, noteId, signal);
+            });
+            await jobQueue.saveCheckpoint(jobId, WORKER_ID, { audioUrl });
+            await jobQueue.updateProgress(jobId, WORKER_ID, 90, 'Upload complete');
+            notifyProgress(job, podcastId, stage, 90);
+        }
+        stage = undefined;
+
+        // Last point at which a cancellation takes effect
+        signal?.throwIfAborted();
 
-        // Step 5: Update database (90-95%)
-        jobQueue.updateProgress(jobId, 92, 'Updating database...');
-        const transcript = audioSegments.map(segment => ({
+        // Step 5: Update database (90-100%)
+        await jobQueue.updateProgress(jobId, WORKER_ID, 92, 'Updating database...');
+        const transcript = segments.map(segment => ({
             speaker: segment.speaker,
             text: segment.text,
             startTime: segment.startTime,
             endTime: segment.endTime,
         }));
 
-        await podcastDb.updatePodcast(podcastId, {
-            audioUrl,
-            audioDuration: totalDuration,
-            transcript,
-            status: 'completed',
-        });
-
-        jobQueue.updateProgress(jobId, 95, 'Database updated');
-
-        // Mark job as completed
-        jobQueue.completeJob(jobId, podcastId, audioUrl, totalDuration, transcript);
+        // Mark the job and its podcast as completed, unless a cancellation arrived
+        // since the last check or the job was handed to another worker
+        if (!await jobQueue.completeJob(jobId, WORKER_ID, podcastId, audioUrl, totalDuration, transcript)) {
+            console.warn(`⚠️  Job ${jobId} finished but could not be completed; discarding the result`);
+            await handleCancelledJob(job, podcastId);
+            return;
+        }
+        await discardCheckpoints(jobId);
 
         // Send webhook notification to main app
         await sendWebhook({
@@ -74,55 +302,267 @@ export async function processJob(job: PodcastJob): Promise<void> {
             noteId,
             userId,
             duration,
+            targetMinutes,
             podcastId,
             audioUrl,
             audioDuration: totalDuration,
             transcript,
             timestamp: new Date().toISOString(),
-        });
+        }, getWebhookContext(job));
 
         console.log(`✅ Job ${jobId} completed successfully`);
     } catch (error) {
-        console.error(`❌ Job ${jobId} failed:`, error);
+        // Another worker owns the job now (or it already finished), so leave it alone
+        if (error instanceof JobNotHeldError) {
+            console.warn(`⚠️  Stopped job ${jobId}: ${error.message}`);
+            return;
+        }
 
-        // Mark job as failed
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        jobQueue.failJob(jobId, errorMessage);
+        const shutdown = signal?.reason instanceof WorkerShutdownError;
 
-        // Update podcast status in database if it was created
-        try {
-            const podcast = await podcastDb.getPodcastsByNote(noteId);
-            if (podcast.length > 0 && podcast[0]) {
-                await podcastDb.updatePodcast(podcast[0]._id.toString(), {
-                    status: 'failed',
-                    error: errorMessage,
-                });
-            }
-        } catch (dbError) {
-            console.error('Failed to update podcast status:', dbError);
+        if (signal?.aborted && !shutdown) {
+            await handleCancelledJob(job, podcastId);
+            return;
+        }
+
+        // Interrupted by shutdown: leave the job and its checkpoints for another worker
+        if (shutdown && INTERRUPTED_JOB_ACTION === 'requeue') {
+            await jobQueue.requeueJob(jobId, WORKER_ID, signal.reason.message).catch(err => {
+                console.error('Failed to requeue job:', err);
+            });
+            return;
+        }
+
+        const errorMessage = shutdown
+            ? signal.reason.message
+            : error instanceof Error ? error.message : 'Unknown error';
+        console.error(`❌ Job ${jobId} failed${stage ? ` at ${stage} stage` : ''}:`, shutdown ? errorMessage : error);
+
+        // Mark the job and its linked podcast as failed (checkpoints are kept so it can be retried)
+        const errorCode = shutdown ? 'worker_shutdown' : getErrorCode(stage);
+        const failed = await jobQueue.failJob(jobId, WORKER_ID, errorMessage, stage, errorCode).catch(err => {
+            console.error('Failed to update job status:', err);
+            // Outcome unknown; still tell the caller it failed
+            return true;
+        });
+        if (!failed) {
+            console.warn(`⚠️  Job ${jobId} is no longer processed by this worker; not reporting its failure`);
+            return;
+        }
+
+        await sendWebhook({
+            event: 'podcast.failed',
+            jobId,
+            noteId,
+            userId,
+            duration,
+            targetMinutes,
+            podcastId,
+            error: errorMessage,
+            errorCode,
+            failedStage: stage,
+            timestamp: new Date().toISOString(),
+        }, getWebhookContext(job));
+    }
+}
+
+// Clean up after a job whose processing was aborted by a cancellation request.
+// Does nothing if this worker no longer holds the job.
+async function handleCancelledJob(job: PodcastJob, podcastId?: string): Promise<void> {
+    const { jobId, noteId, userId } = job;
+    const { duration, targetMinutes } = getPodcastLength(job);
+
+    try {
+        // Also deletes the partial podcast record
+        if (!await jobQueue.markCancelled(jobId, WORKER_ID)) {
+            return;
+        }
+    } catch (error) {
+        console.error(`Failed to clean up cancelled job ${jobId}:`, error);
+    }
+
+    await discardCheckpoints(jobId);
+
+    await sendCancelledWebhooks({
+        jobId,
+        noteId,
+        userId,
+        duration,
+        targetMinutes,
+        podcastId,
+        timestamp: new Date().toISOString(),
+    }, getWebhookContext(job));
+}
+
+// Abort jobs in this process that have a pending cancellation request
+async function abortCancelledJobs(): Promise<void> {
+    if (activeJobs.size === 0) {
+        return;
+    }
+
+    const jobIds = await jobQueue.getCancelRequestedJobIds(WORKER_ID);
+    for (const jobId of jobIds) {
+        const controller = activeJobs.get(jobId)?.controller;
+        if (controller && !controller.signal.aborted) {
+            console.log(`🛑 Aborting job: ${jobId}`);
+            controller.abort(new Error('Job cancelled'));
         }
     }
 }
 
+// Keep this worker's jobs from being treated as abandoned, and requeue
+// jobs whose worker stopped heartbeating
+async function sendHeartbeat(): Promise<void> {
+    const activeJobIds = [...activeJobs.keys()];
+
+    await jobQueue.heartbeat(WORKER_ID, activeJobIds);
+    await workerRegistry.report({
+        workerId: WORKER_ID,
+        hostname: hostname(),
+        pid: process.pid,
+        concurrency: WORKER_CONCURRENCY,
+        activeJobIds,
+        startedAt: startedAt!,
+    });
+    await jobQueue.requeueStaleJobs(new Date(Date.now() - WORKER_STALE_AFTER_MS));
+}
+
+// State of this process's worker, for health checks
+export function getWorkerStatus() {
+    return {
+        workerId: WORKER_ID,
+        running: claimInterval !== undefined,
+        concurrency: WORKER_CONCURRENCY,
+        activeJobIds: [...activeJobs.keys()],
+        startedAt,
+        lastPollAt,
+        pollIntervalMs: POLL_INTERVAL_MS,
+    };
+}
+
 // Process jobs from the queue
-export function startJobProcessor(): void {
-    console.log('🚀 Job processor started');
-
-    // Process jobs every 100ms
-    setInterval(async () => {
-        const stats = jobQueue.getStats();
-
-        // Only process if there are queued jobs and no jobs currently processing
-        if (stats.queued > 0 && stats.processing === 0) {
-            const jobs = jobQueue.getAllJobs();
-            const queuedJob = jobs.find((j: PodcastJob) => j.status === 'queued');
-
-            if (queuedJob) {
-                console.log(`📥 Processing job: ${queuedJob.jobId}`);
-                processJob(queuedJob).catch(error => {
-                    console.error('Job processor error:', error);
-                });
+export async function startJobProcessor(): Promise<void> {
+    startedAt = new Date();
+
+    // Register this worker and pick up jobs abandoned by dead workers
+    try {
+        await sendHeartbeat();
+    } catch (error) {
+        console.error('Worker heartbeat failed:', error);
+    }
+
+    heartbeatInterval = setInterval(() => {
+        sendHeartbeat().catch(error => {
+            console.error('Worker heartbeat failed:', error);
+        });
+    }, HEARTBEAT_INTERVAL_MS);
+
+    console.log(`🚀 Job processor started (worker ${WORKER_ID}, concurrency ${WORKER_CONCURRENCY})`);
+
+    let isClaiming = false;
+
+    claimInterval = setInterval(async () => {
+        // Avoid overlapping claim loops when the database is slow
+        if (isClaiming) {
+            return;
+        }
+
+        isClaiming = true;
+        lastPollAt = new Date();
+        try {
+            await abortCancelledJobs();
+
+            // Fill every free worker slot; per-key limits are enforced by the queue
+            while (activeJobs.size < WORKER_CONCURRENCY) {
+                const queuedJob = await jobQueue.claimNextJob(WORKER_ID);
+                if (!queuedJob) {
+                    break;
+                }
+
+                console.log(`📥 Processing job: ${queuedJob.jobId} (${activeJobs.size + 1}/${WORKER_CONCURRENCY} slots)`);
+                const controller = new AbortController();
+                const done = processJob(queuedJob, controller.signal)
+                    .catch(error => {
+                        console.error('Job processor error:', error);
+                    })
+                    .finally(() => {
+                        activeJobs.delete(queuedJob.jobId);
+                    });
+
+                activeJobs.set(queuedJob.jobId, { controller, done });
             }
+        } catch (error) {
+            console.error('Job processor error:', error);
+        } finally {
+            isClaiming = false;
         }
-    }, 100);
+    }, POLL_INTERVAL_MS);
+}
+
+// Wait for the given jobs to finish, up to timeoutMs. Returns true if they all did.
+async function waitForJobs(jobs: ActiveJob[], timeoutMs: number): Promise<boolean> {
+    const timeout = new AbortController();
+    const allDone = Promise.all(jobs.map(job => job.done)).then(() => true);
+    const timedOut = sleep(timeoutMs, false, { signal: timeout.signal }).catch(() => false);
+
+    const finished = await Promise.race([allDone, timedOut]);
+    timeout.abort();
+    return finished;
+}
+
+// Stop claiming jobs, give active jobs gracePeriodMs to finish, then abort the
+// rest so they are requeued (or failed, see SHUTDOWN_INTERRUPTED_JOB_ACTION)
+// Stop claiming new jobs; jobs already running carry on
+export function stopClaimingJobs(): void {
+    clearInterval(claimInterval);
+    claimInterval = undefined;
+}
+
+export async function stopJobProcessor(gracePeriodMs: number): Promise<void> {
+    if (!heartbeatInterval) {
+        return;
+    }
+
+    stopClaimingJobs();
+
+    // Heartbeats continue while jobs drain so other workers don't requeue them
+    try {
+        await drainActiveJobs(gracePeriodMs);
+    } finally {
+        clearInterval(heartbeatInterval);
+        heartbeatInterval = undefined;
+        await workerRegistry.unregister(WORKER_ID).catch(error => {
+            console.error('Failed to unregister worker:', error);
+        });
+    }
+}
+
+async function drainActiveJobs(gracePeriodMs: number): Promise<void> {
+    if (activeJobs.size === 0) {
+        console.log('🛑 Job processor stopped');
+        return;
+    }
+
+    console.log(`⏳ Waiting up to ${gracePeriodMs}ms for ${activeJobs.size} active jobs...`);
+    if (await waitForJobs([...activeJobs.values()], gracePeriodMs)) {
+        console.log('🛑 Job processor stopped (all active jobs finished)');
+        return;
+    }
+
+    const interrupted = [...activeJobs.entries()];
+    const reason = INTERRUPTED_JOB_ACTION === 'requeue'
+        ? `Requeued: worker ${WORKER_ID} shut down before the job finished`
+        : `Worker ${WORKER_ID} shut down before the job finished`;
+
+    for (const [jobId, { controller }] of interrupted) {
+        console.log(`🛑 Interrupting job ${jobId} (${INTERRUPTED_JOB_ACTION})`);
+        controller.abort(new WorkerShutdownError(reason));
+    }
+
+    // Let aborted jobs record their outcome and clean up temp files
+    if (!await waitForJobs(interrupted.map(([, job]) => job), ABORT_CLEANUP_TIMEOUT_MS)) {
+        console.warn(`⚠️  ${activeJobs.size} jobs did not stop in time; they will be requeued once their heartbeat goes stale`);
+    }
+
+    console.log(`🛑 Job processor stopped (${interrupted.length} jobs interrupted)`);
 }
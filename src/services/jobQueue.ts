@@ -1,135 +1,661 @@
-import type { PodcastJob, JobStatus } from '../types/jobs.js';
+import { Job } from '../models/Job.js';
+import type {
+    PodcastJob,
+    JobStatus,
+    CreateJobRequest,
+    JobPriority,
+    CancelJobResult,
+    JobStage,
+    JobCheckpoint,
+    CheckpointSegment,
+    JobStageTiming,
+} from '../types/jobs.js';
+import { PRIORITY_WEIGHTS } from '../config/plans.js';
+import { deleteCheckpoints } from './checkpointStore.js';
+import { jobEvents } from './jobEvents.js';
+import { batchStore } from './batchStore.js';
+import { podcastDb, type UpdatePodcastData } from './podcastDatabase.js';
+import { getGenerationFingerprint } from './contentHash.js';
+import { getErrorCode } from './errorCodes.js';
+import { creditLedger, type CreditCharge } from './creditLedger.js';
+import { getPodcastLength } from './podcastLength.js';
+import type { PodcastErrorCode } from '../types/index.js';
 
-// In-memory job storage (for simplicity, can be replaced with Redis later)
+// Strip Mongo internals so callers get plain PodcastJob objects
+const JOB_PROJECTION = { _id: 0, __v: 0, eventSeq: 0 };
+
+// Statuses a job never leaves on its own
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+// Checkpoints are internal to workers and can be large, so API reads leave them out
+const PUBLIC_JOB_PROJECTION = { ...JOB_PROJECTION, checkpoint: 0 };
+
+// Admin listings leave out note content and results as well
+const SUMMARY_JOB_PROJECTION = { ...PUBLIC_JOB_PROJECTION, noteContent: 0, transcript: 0 };
+
+// Statuses of jobs that still count towards queue depth
+const ACTIVE_STATUSES: JobStatus[] = ['queued', 'processing'];
+
+// Each priority lane moves a job this far ahead in the queue. A job that has
+// waited this long per lane of difference overtakes newer higher-priority jobs,
+// so low-priority work is never starved.
+const PRIORITY_AGING_MS = parseInt(process.env.JOB_PRIORITY_AGING_MS || String(5 * 60 * 1000));
+
+// Jobs are dispatched in ascending dispatchAt order: by priority, then FIFO, with aging
+function getDispatchAt(createdAt: Date, priority: JobPriority): Date {
+    return new Date(createdAt.getTime() - PRIORITY_WEIGHTS[priority] * PRIORITY_AGING_MS);
+}
+
+// Matches a job only while the given worker is still processing it
+function heldBy(jobId: string, workerId: string) {
+    return { jobId, status: 'processing' as const, workerId };
+}
+
+// Thrown by worker writes to a job the worker no longer holds: it was requeued to
+// another worker after a missed heartbeat, or finished or cancelled meanwhile
+export class JobNotHeldError extends Error {
+    constructor(jobId: string, workerId: string) {
+        super(`Job ${jobId} is no longer processed by worker ${workerId}`);
+        this.name = 'JobNotHeldError';
+    }
+}
+
+// MongoDB-backed job storage (survives restarts and can be shared by workers)
 class JobQueue {
-    private jobs: Map<string, PodcastJob> = new Map();
-    private processingQueue: string[] = [];
-
-    // Create a new job
-    createJob(
-        noteId: string,
-        noteContent: string,
-        userId: string,
-        duration: 'short' | 'long'
-    ): PodcastJob {
+    // Charge the job's credits, then create it together with its podcast record, linked
+    // both ways. Throws InsufficientCreditsError if the tenant's allowance is used up.
+    // A charge debited up front by the caller is used instead, and refunded if creation fails.
+    async createJob(request: CreateJobRequest, prepaid?: CreditCharge): Promise<PodcastJob> {
         const jobId = `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        const createdAt = new Date();
+        const priority = request.priority || 'normal';
 
-        const job: PodcastJob = {
+        const charge = prepaid ?? await creditLedger.debit({
+            tenantId: request.tenantId,
+            apiKeyId: request.apiKeyId,
+            plan: request.plan,
+            duration: request.duration,
+            targetMinutes: request.targetMinutes,
+            noteId: request.noteId,
             jobId,
-            status: 'queued',
-            progress: 0,
-            noteId,
-            noteContent,
-            userId,
-            duration,
-            createdAt: new Date(),
-        };
+        });
+
+        let podcastId: string | undefined;
+        let job: PodcastJob;
+        try {
+            const podcast = await podcastDb.createPodcast({
+                jobId,
+                tenantId: request.tenantId,
+                status: 'queued',
+                noteId: request.noteId,
+                userId: request.userId,
+                noteContent: request.noteContent,
+                duration: request.duration,
+                targetMinutes: request.targetMinutes,
+                style: request.style,
+                ...getGenerationFingerprint(request.noteContent, request, request.style),
+            });
+            podcastId = podcast._id.toString();
+
+            job = {
+                jobId,
+                status: 'queued',
+                progress: 0,
+                ...request,
+                podcastId,
+                creditEntryId: charge.entryId,
+                priority,
+                dispatchAt: getDispatchAt(createdAt, priority),
+                createdAt,
+            };
 
-        this.jobs.set(jobId, job);
-        this.processingQueue.push(jobId);
+            await Job.create(job);
+        } catch (error) {
+            // Don't leave a podcast behind that no job will ever generate, or charge for it
+            if (podcastId) {
+                await podcastDb.deletePodcast(podcastId, request.tenantId).catch(() => {});
+            }
+            await this.refundCredits(charge.entryId, 'Job could not be created');
+            throw error;
+        }
+        await jobEvents.publish(jobId, 'queued', { priority });
 
         console.log(`📋 Created job: ${jobId}`);
         return job;
     }
 
-    // Get job by ID
-    getJob(jobId: string): PodcastJob | undefined {
-        return this.jobs.get(jobId);
+    // Get a tenant's job by ID (queued jobs include their position in the queue)
+    async getJob(jobId: string, tenantId: string): Promise<PodcastJob | null> {
+        const job = await Job.findOne({ jobId, tenantId }, PUBLIC_JOB_PROJECTION).lean<PodcastJob>();
+
+        if (job?.status === 'queued') {
+            job.queuePosition = await this.getQueuePosition(job);
+        }
+
+        return job;
+    }
+
+    // 1-based position of a queued job among its tenant's queued jobs, counting those
+    // dispatched before it. Other tenants' jobs aren't counted, so their volume isn't revealed.
+    async getQueuePosition(job: PodcastJob): Promise<number> {
+        const ahead = await Job.countDocuments({
+            tenantId: job.tenantId,
+            status: 'queued',
+            dispatchAt: { $lt: job.dispatchAt ?? job.createdAt },
+        });
+        return ahead + 1;
     }
 
-    // Update job status
-    updateJob(jobId: string, updates: Partial<PodcastJob>): void {
-        const job = this.jobs.get(jobId);
-        if (job) {
-            Object.assign(job, updates);
-            this.jobs.set(jobId, job);
+    // Update a job the worker holds. Throws JobNotHeldError if it no longer does.
+    async updateJob(jobId: string, workerId: string, updates: Partial<PodcastJob>): Promise<void> {
+        const result = await Job.updateOne(heldBy(jobId, workerId), { $set: updates });
+        if (result.matchedCount === 0) {
+            throw new JobNotHeldError(jobId, workerId);
         }
     }
 
     // Update job progress
-    updateProgress(jobId: string, progress: number, currentStep?: string): void {
-        this.updateJob(jobId, { progress, currentStep });
+    async updateProgress(jobId: string, workerId: string, progress: number, currentStep?: string): Promise<void> {
+        await this.updateJob(jobId, workerId, { progress, currentStep });
+        await jobEvents.publish(jobId, 'progress', { progress, currentStep });
         console.log(`📊 Job ${jobId}: ${progress}% - ${currentStep || ''}`);
     }
 
-    // Mark job as processing
-    startJob(jobId: string): void {
-        this.updateJob(jobId, {
-            status: 'processing',
-            startedAt: new Date(),
-            progress: 0,
+    // API keys whose processing jobs already fill their concurrent job limit
+    async getSaturatedApiKeys(): Promise<string[]> {
+        const groups = await Job.aggregate<{ _id: string; count: number; limit: number | null }>([
+            { $match: { status: 'processing', apiKeyId: { $exists: true } } },
+            { $group: { _id: '$apiKeyId', count: { $sum: 1 }, limit: { $max: '$concurrencyLimit' } } },
+        ]);
+
+        return groups
+            .filter(group => group.limit != null && group.count >= group.limit)
+            .map(group => group._id);
+    }
+
+    // Atomically claim the next queued job (by priority, then FIFO) for a worker and
+    // mark it as processing. Jobs from API keys at their concurrency limit stay queued.
+    async claimNextJob(workerId: string): Promise<PodcastJob | null> {
+        const saturatedKeys = await this.getSaturatedApiKeys();
+
+        const job = await Job.findOneAndUpdate(
+            { status: 'queued', apiKeyId: { $nin: saturatedKeys } },
+            {
+                $set: {
+                    status: 'processing',
+                    workerId,
+                    startedAt: new Date(),
+                    heartbeatAt: new Date(),
+                    progress: 0,
+                },
+            },
+            { sort: { dispatchAt: 1 }, new: true, projection: JOB_PROJECTION }
+        ).lean<PodcastJob>();
+
+        if (!job) {
+            return null;
+        }
+
+        // Another worker may have claimed a job for the same key concurrently
+        if (job.apiKeyId && job.concurrencyLimit) {
+            const processing = await Job.countDocuments({ status: 'processing', apiKeyId: job.apiKeyId });
+            if (processing > job.concurrencyLimit) {
+                await this.releaseJob(job.jobId, workerId);
+                return null;
+            }
+        }
+
+        console.log(`▶️  Started job: ${job.jobId} (worker ${workerId})`);
+        return job;
+    }
+
+    // Return a claimed job to the queue without losing its place
+    async releaseJob(jobId: string, workerId: string): Promise<void> {
+        await Job.updateOne(
+            { jobId, status: 'processing', workerId },
+            {
+                $set: { status: 'queued', progress: 0 },
+                $unset: { workerId: '', startedAt: '', heartbeatAt: '' },
+            }
+        );
+    }
+
+    // Hand a job this worker can't finish back to the queue, keeping its checkpoints
+    async requeueJob(jobId: string, workerId: string, reason: string): Promise<void> {
+        const result = await Job.updateOne(
+            { jobId, status: 'processing', workerId },
+            {
+                $set: { status: 'queued', progress: 0, currentStep: reason },
+                $unset: { workerId: '', startedAt: '', heartbeatAt: '' },
+            }
+        );
+
+        if (result.modifiedCount > 0) {
+            await jobEvents.publish(jobId, 'queued', { requeued: true, reason });
+            console.log(`♻️  Requeued job: ${jobId} - ${reason}`);
+        }
+    }
+
+    // Mark the worker's running jobs as alive
+    async heartbeat(workerId: string, jobIds: string[]): Promise<void> {
+        if (jobIds.length === 0) {
+            return;
+        }
+
+        await Job.updateMany(
+            { jobId: { $in: jobIds }, status: 'processing', workerId },
+            { $set: { heartbeatAt: new Date() } }
+        );
+    }
+
+    // Requeue processing jobs whose worker stopped heartbeating (crashed or was killed)
+    async requeueStaleJobs(staleBefore: Date): Promise<number> {
+        const stale = { status: 'processing' as const, heartbeatAt: { $not: { $gte: staleBefore } } };
+
+        // Jobs that were being cancelled don't need to run again
+        const cancelling = await Job.find(
+            { ...stale, cancelRequestedAt: { $exists: true } },
+            { jobId: 1 }
+        ).lean<{ jobId: string }[]>();
+        for (const { jobId } of cancelling) {
+            await this.cancelProcessingJob({ ...stale, jobId });
+        }
+
+        const result = await Job.updateMany(
+            stale,
+            {
+                $set: {
+                    status: 'queued',
+                    progress: 0,
+                    currentStep: 'Requeued after its worker stopped responding',
+                },
+                $unset: { workerId: '', startedAt: '', heartbeatAt: '' },
+            }
+        );
+
+        if (result.modifiedCount > 0) {
+            console.log(`♻️  Requeued ${result.modifiedCount} interrupted jobs`);
+        }
+
+        return result.modifiedCount;
+    }
+
+    // Apply a terminal status update to a processing job matching filter and let the
+    // job's batch check for completion. Returns the job's tenant, podcastId and credit
+    // debit so callers can update the linked podcast and refund the job, or null if no
+    // job matched (nothing else must happen then).
+    private async finishJob(
+        filter: Record<string, unknown>,
+        updates: Partial<PodcastJob>
+    ): Promise<{ tenantId: string; podcastId?: string; creditEntryId?: string } | null> {
+        const job = await Job.findOneAndUpdate(
+            filter,
+            { $set: updates },
+            { projection: { batchId: 1, tenantId: 1, podcastId: 1, creditEntryId: 1 } }
+        ).lean<{ batchId?: string; tenantId: string; podcastId?: string; creditEntryId?: string }>();
+        if (!job) {
+            return null;
+        }
+
+        await this.notifyBatch(job.batchId);
+        return { tenantId: job.tenantId, podcastId: job.podcastId, creditEntryId: job.creditEntryId };
+    }
+
+    // Remove what a cancelled job leaves behind: its unfinished podcast record and its
+    // checkpoint audio. Never throws; leftovers are logged.
+    private async discardCancelledJob(jobId: string, tenantId: string, podcastId: string | undefined): Promise<void> {
+        if (podcastId) {
+            await podcastDb.deletePodcast(podcastId, tenantId).catch(error => {
+                console.error(`Failed to delete podcast ${podcastId} of cancelled job ${jobId}:`, error);
+            });
+        }
+
+        await deleteCheckpoints(jobId).catch(error => {
+            console.error(`Failed to delete checkpoints for job ${jobId}:`, error);
         });
-        console.log(`▶️  Started job: ${jobId}`);
     }
 
-    // Mark job as completed
-    completeJob(
+    // Mirror a job's terminal state onto its podcast record
+    private async updateLinkedPodcast(podcastId: string | undefined, updates: UpdatePodcastData): Promise<void> {
+        if (!podcastId) {
+            return;
+        }
+
+        await podcastDb.updatePodcast(podcastId, updates).catch(error => {
+            console.error(`Failed to update podcast ${podcastId}:`, error);
+        });
+    }
+
+    private async notifyBatch(batchId: string | undefined): Promise<void> {
+        if (!batchId) {
+            return;
+        }
+
+        await batchStore.onJobFinished(batchId).catch(error => {
+            console.error(`Failed to update batch ${batchId}:`, error);
+        });
+    }
+
+    // Give back the credits charged for a job. Never throws: a lost refund is logged
+    // rather than failing the state change that triggered it.
+    private async refundCredits(creditEntryId: string | undefined, reason: string): Promise<void> {
+        if (!creditEntryId) {
+            return;
+        }
+
+        await creditLedger.refund(creditEntryId, reason).catch(error => {
+            console.error(`Failed to refund credit entry ${creditEntryId}:`, error);
+        });
+    }
+
+    // Mark a job the worker holds, and its podcast, as completed. Returns false, and
+    // changes nothing, if the worker no longer holds the job or it is being cancelled.
+    async completeJob(
         jobId: string,
+        workerId: string,
         podcastId: string,
         audioUrl: string,
         audioDuration: number,
         transcript: any[]
-    ): void {
-        this.updateJob(jobId, {
-            status: 'completed',
-            progress: 100,
-            podcastId,
-            audioUrl,
-            audioDuration,
-            transcript,
-            completedAt: new Date(),
-        });
+    ): Promise<boolean> {
+        const finished = await this.finishJob(
+            { ...heldBy(jobId, workerId), cancelRequestedAt: { $exists: false } },
+            {
+                status: 'completed',
+                progress: 100,
+                podcastId,
+                audioUrl,
+                audioDuration,
+                transcript,
+                completedAt: new Date(),
+            }
+        );
+        if (!finished) {
+            return false;
+        }
+
+        await this.updateLinkedPodcast(podcastId, { audioUrl, audioDuration, transcript, status: 'completed' });
+        await jobEvents.publish(jobId, 'completed', { podcastId, audioUrl, audioDuration });
         console.log(`✅ Completed job: ${jobId}`);
+        return true;
     }
 
-    // Mark job as failed
-    failJob(jobId: string, error: string): void {
-        this.updateJob(jobId, {
+    // Mark a job the worker holds, and its podcast, as failed and refund it. Returns
+    // false, and changes nothing, if the worker no longer holds the job.
+    async failJob(
+        jobId: string,
+        workerId: string,
+        error: string,
+        failedStage?: JobStage,
+        errorCode: PodcastErrorCode = getErrorCode(failedStage)
+    ): Promise<boolean> {
+        const finished = await this.finishJob(heldBy(jobId, workerId), {
             status: 'failed',
             error,
+            errorCode,
+            failedStage,
             completedAt: new Date(),
         });
+        if (!finished) {
+            return false;
+        }
+
+        await this.updateLinkedPodcast(finished.podcastId, { status: 'failed', error, errorCode, failedStage });
+        await this.refundCredits(finished.creditEntryId, `Job ${jobId} failed`);
+        await jobEvents.publish(jobId, 'failed', { error, errorCode, failedStage });
         console.error(`❌ Failed job: ${jobId} - ${error}`);
+        return true;
     }
 
-    // Get all jobs for a user
-    getUserJobs(userId: string): PodcastJob[] {
-        return Array.from(this.jobs.values())
-            .filter(job => job.userId === userId)
-            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    // Save the output of a completed stage. Throws JobNotHeldError if the worker no longer holds the job.
+    async saveCheckpoint(jobId: string, workerId: string, checkpoint: Omit<JobCheckpoint, 'segments'>): Promise<void> {
+        const updates = Object.fromEntries(
+            Object.entries(checkpoint).map(([key, value]) => [`checkpoint.${key}`, value])
+        );
+        await this.updateJob(jobId, workerId, updates);
     }
 
-    // Clean up old jobs (older than 24 hours)
-    cleanup(): void {
-        const oneDayAgo = Date.now() - 24 * 60 * 60 * 1000;
-        let cleaned = 0;
+    // Append a synthesized segment to the audio checkpoint. Throws JobNotHeldError if
+    // the worker no longer holds the job.
+    async addCheckpointSegment(jobId: string, workerId: string, segment: CheckpointSegment): Promise<void> {
+        const result = await Job.updateOne(heldBy(jobId, workerId), { $push: { 'checkpoint.segments': segment } });
+        if (result.matchedCount === 0) {
+            throw new JobNotHeldError(jobId, workerId);
+        }
+    }
+
+    // Record how a stage's last run went (ignored if the worker no longer holds the job)
+    async recordStageTiming(jobId: string, workerId: string, stage: JobStage, timing: JobStageTiming): Promise<void> {
+        await Job.updateOne(heldBy(jobId, workerId), { $set: { [`stageTimings.${stage}`]: timing } });
+    }
+
+    // Drop checkpoint data once the job no longer needs to resume
+    async clearCheckpoint(jobId: string): Promise<void> {
+        await Job.updateOne({ jobId }, { $unset: { checkpoint: '' } });
+    }
+
+    // Put a tenant's failed job back in the queue; it resumes from its last checkpoint.
+    // Its credits were refunded when it failed, so they are charged again. Returns null
+    // if the job doesn't exist or hasn't failed; throws InsufficientCreditsError if the
+    // tenant's allowance is used up.
+    async retryJob(jobId: string, tenantId: string): Promise<PodcastJob | null> {
+        const failed = await Job.findOne(
+            { jobId, tenantId, status: 'failed' },
+            { apiKeyId: 1, plan: 1, duration: 1, targetMinutes: 1, noteId: 1, creditEntryId: 1, priority: 1 }
+        ).lean<Pick<PodcastJob, 'apiKeyId' | 'plan' | 'duration' | 'targetMinutes' | 'noteId' | 'creditEntryId' | 'priority'>>();
+        if (!failed) {
+            return null;
+        }
+
+        // Jobs created before credits were tracked have no plan and aren't charged
+        let creditEntryId = failed.creditEntryId;
+        let charged = false;
+        if (failed.plan && (!creditEntryId || await creditLedger.isRefunded(creditEntryId))) {
+            const charge = await creditLedger.debit({
+                tenantId,
+                apiKeyId: failed.apiKeyId,
+                plan: failed.plan,
+                ...getPodcastLength(failed),
+                noteId: failed.noteId,
+                jobId,
+            });
+            creditEntryId = charge.entryId;
+            charged = true;
+        }
+
+        const job = await Job.findOneAndUpdate(
+            { jobId, tenantId, status: 'failed' },
+            {
+                $set: {
+                    status: 'queued',
+                    progress: 0,
+                    currentStep: 'Queued for retry',
+                    // Queue the retry behind work already waiting in its lane
+                    dispatchAt: getDispatchAt(new Date(), failed.priority || 'normal'),
+                    ...(creditEntryId && { creditEntryId }),
+                },
+                $unset: { error: '', errorCode: '', failedStage: '', workerId: '', startedAt: '', completedAt: '' },
+            },
+            { new: true, projection: PUBLIC_JOB_PROJECTION }
+        ).lean<PodcastJob>();
 
-        for (const [jobId, job] of this.jobs.entries()) {
-            if (job.createdAt.getTime() < oneDayAgo) {
-                this.jobs.delete(jobId);
-                cleaned++;
+        if (!job) {
+            // Retried concurrently; only one retry is charged
+            if (charged) {
+                await this.refundCredits(creditEntryId, `Job ${jobId} was already retried`);
             }
+            return null;
         }
 
-        if (cleaned > 0) {
-            console.log(`🧹 Cleaned up ${cleaned} old jobs`);
+        if (job.podcastId) {
+            await podcastDb.markQueuedForRetry(job.podcastId);
+        }
+        await jobEvents.publish(jobId, 'queued', { retry: true });
+        console.log(`🔁 Requeued failed job: ${jobId}`);
+
+        return job;
+    }
+
+    // Cancel a tenant's job. Queued jobs are cancelled immediately; processing jobs are
+    // flagged so their worker can abort them. Returns null if the job doesn't exist.
+    async cancelJob(jobId: string, tenantId: string): Promise<CancelJobResult | null> {
+        const queued = await Job.findOneAndUpdate(
+            { jobId, tenantId, status: 'queued' },
+            { $set: { status: 'cancelled', completedAt: new Date() } },
+            { new: true, projection: PUBLIC_JOB_PROJECTION }
+        ).lean<PodcastJob>();
+
+        if (queued) {
+            await this.discardCancelledJob(jobId, tenantId, queued.podcastId);
+            await this.refundCredits(queued.creditEntryId, `Job ${jobId} cancelled`);
+            await jobEvents.publish(jobId, 'cancelled', {});
+            await this.notifyBatch(queued.batchId);
+            console.log(`🚫 Cancelled queued job: ${jobId}`);
+            return { job: queued, outcome: 'cancelled' };
+        }
+
+        const processing = await Job.findOneAndUpdate(
+            { jobId, tenantId, status: 'processing' },
+            { $set: { cancelRequestedAt: new Date(), currentStep: 'Cancelling...' } },
+            { new: true, projection: PUBLIC_JOB_PROJECTION }
+        ).lean<PodcastJob>();
+
+        if (processing) {
+            console.log(`🚫 Cancellation requested for job: ${jobId}`);
+            return { job: processing, outcome: 'cancelling' };
+        }
+
+        const job = await this.getJob(jobId, tenantId);
+        return job ? { job, outcome: 'finished' } : null;
+    }
+
+    // Job IDs claimed by a worker that have a pending cancellation request
+    async getCancelRequestedJobIds(workerId: string): Promise<string[]> {
+        const jobs = await Job.find(
+            { status: 'processing', workerId, cancelRequestedAt: { $exists: true } },
+            { jobId: 1 }
+        ).lean<{ jobId: string }[]>();
+        return jobs.map(job => job.jobId);
+    }
+
+    // Mark a processing job as cancelled once its worker has stopped it. Returns
+    // false, and changes nothing, if the worker no longer holds the job.
+    async markCancelled(jobId: string, workerId: string): Promise<boolean> {
+        return this.cancelProcessingJob(heldBy(jobId, workerId));
+    }
+
+    // Cancel and refund the processing job matching filter, if there still is one
+    private async cancelProcessingJob(filter: { jobId: string; status: 'processing' }): Promise<boolean> {
+        const finished = await this.finishJob(filter, {
+            status: 'cancelled',
+            currentStep: 'Cancelled',
+            completedAt: new Date(),
+        });
+        if (!finished) {
+            return false;
+        }
+
+        await this.discardCancelledJob(filter.jobId, finished.tenantId, finished.podcastId);
+        await this.refundCredits(finished.creditEntryId, `Job ${filter.jobId} cancelled`);
+        await jobEvents.publish(filter.jobId, 'cancelled', {});
+        console.log(`🚫 Cancelled job: ${filter.jobId}`);
+        return true;
+    }
+
+    // Get all of a tenant's jobs for a user
+    async getUserJobs(userId: string, tenantId: string): Promise<PodcastJob[]> {
+        return Job.find({ tenantId, userId }, PUBLIC_JOB_PROJECTION)
+            .sort({ createdAt: -1 })
+            .lean<PodcastJob[]>();
+    }
+
+    // Clean up finished jobs older than 24 hours
+    async cleanup(): Promise<void> {
+        const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+        const filter = {
+            status: { $in: FINISHED_STATUSES },
+            createdAt: { $lt: oneDayAgo },
+        };
+
+        // Failed jobs keep their checkpoint audio for retries; remove it with the job
+        const checkpointed = await Job.find(
+            { ...filter, checkpoint: { $exists: true } },
+            { jobId: 1 }
+        ).lean<{ jobId: string }[]>();
+        for (const { jobId } of checkpointed) {
+            await deleteCheckpoints(jobId).catch(error => {
+                console.error(`Failed to delete checkpoints for job ${jobId}:`, error);
+            });
+        }
+
+        const result = await Job.deleteMany(filter);
+
+        if (result.deletedCount > 0) {
+            console.log(`🧹 Cleaned up ${result.deletedCount} old jobs`);
         }
     }
 
     // Get all jobs
-    getAllJobs(): PodcastJob[] {
-        return Array.from(this.jobs.values());
+    async getAllJobs(): Promise<PodcastJob[]> {
+        return Job.find({}, PUBLIC_JOB_PROJECTION).sort({ createdAt: 1 }).lean<PodcastJob[]>();
+    }
+
+    // Queued and processing jobs per tenant, busiest first, with the oldest queued job's age
+    async getQueueDepth(): Promise<{
+        byTenant: { tenantId: string | null; queued: number; processing: number }[];
+        oldestQueuedAt: Date | null;
+    }> {
+        const [groups, oldest] = await Promise.all([
+            Job.aggregate<{ _id: string | null; queued: number; processing: number }>([
+                { $match: { status: { $in: ACTIVE_STATUSES } } },
+                {
+                    $group: {
+                        _id: '$tenantId',
+                        queued: { $sum: { $cond: [{ $eq: ['$status', 'queued'] }, 1, 0] } },
+                        processing: { $sum: { $cond: [{ $eq: ['$status', 'processing'] }, 1, 0] } },
+                    },
+                },
+                { $sort: { queued: -1, processing: -1 } },
+            ]),
+            Job.findOne({ status: 'queued' }, { createdAt: 1 }).sort({ createdAt: 1 }).lean<{ createdAt: Date }>(),
+        ]);
+
+        return {
+            byTenant: groups.map(({ _id, queued, processing }) => ({ tenantId: _id ?? null, queued, processing })),
+            oldestQueuedAt: oldest?.createdAt ?? null,
+        };
+    }
+
+    // Most recently created jobs across all tenants, without note content or transcripts
+    async getRecentJobs(filter: { status?: JobStatus; tenantId?: string; limit: number }): Promise<PodcastJob[]> {
+        const query: Record<string, unknown> = {};
+        if (filter.status) {
+            query.status = filter.status;
+        }
+        if (filter.tenantId) {
+            query.tenantId = filter.tenantId;
+        }
+
+        return Job.find(query, SUMMARY_JOB_PROJECTION)
+            .sort({ createdAt: -1 })
+            .limit(filter.limit)
+            .lean<PodcastJob[]>();
     }
 
     // Get queue stats
-    getStats() {
-        const jobs = Array.from(this.jobs.values());
+    async getStats() {
+        const counts = await Job.aggregate<{ _id: string; count: number }>([
+            { $group: { _id: '$status', count: { $sum: 1 } } },
+        ]);
+        const byStatus = (status: string) => counts.find(c => c._id === status)?.count ?? 0;
+
         return {
-            total: jobs.length,
-            queued: jobs.filter(j => j.status === 'queued').length,
-            processing: jobs.filter(j => j.status === 'processing').length,
-            completed: jobs.filter(j => j.status === 'completed').length,
-            failed: jobs.filter(j => j.status === 'failed').length,
+            total: counts.reduce((sum, c) => sum + c.count, 0),
+            queued: byStatus('queued'),
+            processing: byStatus('processing'),
+            completed: byStatus('completed'),
+            failed: byStatus('failed'),
+            cancelled: byStatus('cancelled'),
         };
     }
 }
@@ -139,5 +665,7 @@ export const jobQueue = new JobQueue();
 
 // Cleanup old jobs every hour
 setInterval(() => {
-    jobQueue.cleanup();
+    jobQueue.cleanup().catch(error => {
+        console.error('Job cleanup error:', error);
+    });
 }, 60 * 60 * 1000);
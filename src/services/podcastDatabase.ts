@@ -1,19 +1,30 @@
 import { Podcast, type IPodcast } from '../models/Podcast.js';
-import type { TranscriptSegment, PodcastDuration } from '../types/index.js';
+import type { TranscriptSegment, PodcastDuration, PodcastStatus, PodcastErrorCode, PodcastStyle, VoiceConfig } from '../types/index.js';
+import type { JobStage } from '../types/jobs.js';
 
 export interface CreatePodcastData {
+    tenantId?: string;
+    jobId?: string;
+    status?: PodcastStatus;
     noteId: string;
     userId: string;
     noteContent: string;
     duration: PodcastDuration;
+    targetMinutes?: number;
+    style?: PodcastStyle;
+    contentHash?: string;
+    ttsProvider?: string;
+    voices?: VoiceConfig;
 }
 
 export interface UpdatePodcastData {
     audioUrl?: string;
     audioDuration?: number;
     transcript?: TranscriptSegment[];
-    status?: 'generating' | 'completed' | 'failed';
+    status?: PodcastStatus;
     error?: string;
+    errorCode?: PodcastErrorCode;
+    failedStage?: JobStage;
 }
 
 export class PodcastDatabase {
@@ -21,8 +32,8 @@ export class PodcastDatabase {
     async createPodcast(data: CreatePodcastData): Promise<IPodcast> {
         try {
             const podcast = new Podcast({
-                ...data,
                 status: 'generating',
+                ...data,
             });
             await podcast.save();
             console.log(`📝 Created podcast record: ${podcast._id}`);
@@ -53,10 +64,23 @@ export class PodcastDatabase {
         }
     }
 
-    // Get podcast by ID
-    async getPodcastById(id: string): Promise<IPodcast | null> {
+    // Put a failed podcast back in the queue, clearing its failure details
+    async markQueuedForRetry(id: string): Promise<void> {
         try {
-            const podcast = await Podcast.findById(id);
+            await Podcast.findByIdAndUpdate(id, {
+                $set: { status: 'queued' },
+                $unset: { error: '', errorCode: '', failedStage: '' },
+            });
+        } catch (error) {
+            console.error('Error resetting podcast for retry:', error);
+            throw new Error(`Failed to reset podcast: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    // Get a tenant's podcast by ID
+    async getPodcastById(id: string, tenantId: string): Promise<IPodcast | null> {
+        try {
+            const podcast = await Podcast.findOne({ _id: id, tenantId });
             return podcast;
         } catch (error) {
             console.error('Error getting podcast by ID:', error);
@@ -64,15 +88,27 @@ export class PodcastDatabase {
         }
     }
 
-    // Get all podcasts for a user
-    async getPodcastsByUser(userId: string, limit = 10, skip = 0): Promise<{ podcasts: IPodcast[]; total: number }> {
+    // Get the newest completed podcast generated from identical content and options
+    async findReusablePodcast(userId: string, contentHash: string, tenantId: string): Promise<IPodcast | null> {
+        try {
+            const podcast = await Podcast.findOne({ tenantId, userId, contentHash, status: 'completed' })
+                .sort({ createdAt: -1 });
+            return podcast;
+        } catch (error) {
+            console.error('Error finding reusable podcast:', error);
+            throw new Error(`Failed to find reusable podcast: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    // Get all of a tenant's podcasts for a user
+    async getPodcastsByUser(userId: string, tenantId: string, limit = 10, skip = 0): Promise<{ podcasts: IPodcast[]; total: number }> {
         try {
             const [podcasts, total] = await Promise.all([
-                Podcast.find({ userId })
+                Podcast.find({ tenantId, userId })
                     .sort({ createdAt: -1 })
                     .limit(limit)
                     .skip(skip),
-                Podcast.countDocuments({ userId }),
+                Podcast.countDocuments({ tenantId, userId }),
             ]);
 
             return { podcasts, total };
@@ -82,10 +118,10 @@ export class PodcastDatabase {
         }
     }
 
-    // Get all podcasts for a note
-    async getPodcastsByNote(noteId: string): Promise<IPodcast[]> {
+    // Get all of a tenant's podcasts for a note
+    async getPodcastsByNote(noteId: string, tenantId: string): Promise<IPodcast[]> {
         try {
-            const podcasts = await Podcast.find({ noteId }).sort({ createdAt: -1 });
+            const podcasts = await Podcast.find({ tenantId, noteId }).sort({ createdAt: -1 });
             return podcasts;
         } catch (error) {
             console.error('Error getting podcasts by note:', error);
@@ -93,10 +129,10 @@ export class PodcastDatabase {
         }
     }
 
-    // Delete podcast
-    async deletePodcast(id: string): Promise<boolean> {
+    // Delete a tenant's podcast
+    async deletePodcast(id: string, tenantId: string): Promise<boolean> {
         try {
-            const result = await Podcast.findByIdAndDelete(id);
+            const result = await Podcast.findOneAndDelete({ _id: id, tenantId });
             if (result) {
                 console.log(`🗑️  Deleted podcast: ${id}`);
                 return true;
@@ -120,6 +156,51 @@ export class PodcastDatabase {
             throw new Error(`Failed to get recent podcasts: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
+
+    // Failed podcasts (sync and async) since a time, grouped by stage and error message
+    async getFailureStats(since: Date, limit = 50): Promise<{
+        total: number;
+        byStage: { failedStage: JobStage | null; count: number }[];
+        byError: { failedStage: JobStage | null; errorCode: PodcastErrorCode | null; error: string | null; count: number; lastSeenAt: Date }[];
+    }> {
+        try {
+            const match = { status: 'failed', updatedAt: { $gte: since } };
+            const [byStage, byError] = await Promise.all([
+                Podcast.aggregate<{ _id: JobStage | null; count: number }>([
+                    { $match: match },
+                    { $group: { _id: '$failedStage', count: { $sum: 1 } } },
+                    { $sort: { count: -1 } },
+                ]),
+                Podcast.aggregate<{ _id: { failedStage?: JobStage; errorCode?: PodcastErrorCode; error?: string }; count: number; lastSeenAt: Date }>([
+                    { $match: match },
+                    {
+                        $group: {
+                            _id: { failedStage: '$failedStage', errorCode: '$errorCode', error: '$error' },
+                            count: { $sum: 1 },
+                            lastSeenAt: { $max: '$updatedAt' },
+                        },
+                    },
+                    { $sort: { count: -1, lastSeenAt: -1 } },
+                    { $limit: limit },
+                ]),
+            ]);
+
+            return {
+                total: byStage.reduce((sum, group) => sum + group.count, 0),
+                byStage: byStage.map(({ _id, count }) => ({ failedStage: _id ?? null, count })),
+                byError: byError.map(({ _id, count, lastSeenAt }) => ({
+                    failedStage: _id.failedStage ?? null,
+                    errorCode: _id.errorCode ?? null,
+                    error: _id.error ?? null,
+                    count,
+                    lastSeenAt,
+                })),
+            };
+        } catch (error) {
+            console.error('Error getting failure stats:', error);
+            throw new Error(`Failed to get failure stats: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
 }
 
 // Export singleton instance
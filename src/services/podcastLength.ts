@@ -0,0 +1,30 @@
+import type { DurationPreset, PodcastDuration, PodcastLength } from '../types/index.js';
+
+// Shortest and longest length that can be requested in minutes (plans may cap it lower)
+export const MIN_TARGET_MINUTES = 1;
+export const MAX_TARGET_MINUTES = 60;
+
+// Minutes the presets are written for
+export const PRESET_MINUTES: Record<DurationPreset, number> = {
+    short: 4, // 3-5 minutes
+    long: 9, // 8-10 minutes
+};
+
+// Length of a request: its targetMinutes, or the minutes of its preset
+export function getRequestedLength(input: { duration?: DurationPreset; targetMinutes?: number }): PodcastLength {
+    if (input.targetMinutes !== undefined) {
+        return { duration: 'custom', targetMinutes: input.targetMinutes };
+    }
+
+    const duration = input.duration ?? 'short';
+    return { duration, targetMinutes: PRESET_MINUTES[duration] };
+}
+
+// Length of a stored job, schedule or podcast. Records from before custom lengths
+// only have a preset; custom lengths always have targetMinutes.
+export function getPodcastLength(record: { duration: PodcastDuration; targetMinutes?: number }): PodcastLength {
+    return {
+        duration: record.duration,
+        targetMinutes: record.targetMinutes ?? PRESET_MINUTES[record.duration as DurationPreset],
+    };
+}
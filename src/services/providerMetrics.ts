@@ -0,0 +1,86 @@
+import { ProviderCall } from '../models/ProviderCall.js';
+import type { ProviderKind, ProviderStats } from '../types/index.js';
+
+// Longest error message kept per call
+const MAX_ERROR_LENGTH = 500;
+
+// Outcomes of LLM and TTS calls, shared by every process through MongoDB
+class ProviderMetrics {
+    // Run a provider call and record whether it succeeded. Calls aborted by a
+    // cancellation or shutdown aren't the provider's fault, so they aren't recorded.
+    async track<T>(kind: ProviderKind, provider: string, signal: AbortSignal | undefined, call: () => Promise<T>): Promise<T> {
+        const startedAt = Date.now();
+
+        try {
+            const result = await call();
+            this.record(kind, provider, startedAt);
+            return result;
+        } catch (error) {
+            if (!signal?.aborted) {
+                this.record(kind, provider, startedAt, error instanceof Error ? error.message : 'Unknown error');
+            }
+            throw error;
+        }
+    }
+
+    // Calls, errors and latency per provider since a time, with each provider's latest error
+    async getStats(since: Date): Promise<ProviderStats[]> {
+        type ProviderKey = { kind: ProviderKind; provider: string };
+
+        const [groups, lastFailures] = await Promise.all([
+            ProviderCall.aggregate<{ _id: ProviderKey; calls: number; errors: number; avgLatencyMs: number }>([
+                { $match: { createdAt: { $gte: since } } },
+                {
+                    $group: {
+                        _id: { kind: '$kind', provider: '$provider' },
+                        calls: { $sum: 1 },
+                        errors: { $sum: { $cond: ['$success', 0, 1] } },
+                        avgLatencyMs: { $avg: '$durationMs' },
+                    },
+                },
+                { $sort: { '_id.kind': 1, '_id.provider': 1 } },
+            ]),
+            ProviderCall.aggregate<{ _id: ProviderKey; error?: string; createdAt: Date }>([
+                { $match: { createdAt: { $gte: since }, success: false } },
+                { $sort: { createdAt: -1 } },
+                {
+                    $group: {
+                        _id: { kind: '$kind', provider: '$provider' },
+                        error: { $first: '$error' },
+                        createdAt: { $first: '$createdAt' },
+                    },
+                },
+            ]),
+        ]);
+
+        return groups.map(({ _id, calls, errors, avgLatencyMs }) => {
+            const lastFailure = lastFailures.find(failure =>
+                failure._id.kind === _id.kind && failure._id.provider === _id.provider);
+
+            return {
+                kind: _id.kind,
+                provider: _id.provider,
+                calls,
+                errors,
+                errorRate: calls > 0 ? errors / calls : 0,
+                avgLatencyMs: Math.round(avgLatencyMs),
+                lastError: lastFailure?.error,
+                lastErrorAt: lastFailure?.createdAt,
+            };
+        });
+    }
+
+    // Save a call without holding up the pipeline
+    private record(kind: ProviderKind, provider: string, startedAt: number, error?: string): void {
+        void ProviderCall.create({
+            kind,
+            provider,
+            success: error === undefined,
+            durationMs: Date.now() - startedAt,
+            error: error?.slice(0, MAX_ERROR_LENGTH),
+        }).catch(err => console.error(`Failed to record ${provider} call:`, err));
+    }
+}
+
+// Singleton instance
+export const providerMetrics = new ProviderMetrics();
@@ -0,0 +1,114 @@
+import { RateLimitBucket } from '../models/RateLimitBucket.js';
+import type { RateLimitConfig } from '../types/index.js';
+
+// Where token buckets live: 'memory' (per process) or 'mongo' (shared by every API instance)
+const RATE_LIMIT_STORE = process.env.RATE_LIMIT_STORE || 'memory';
+
+// Bucket state after a request tried to take a token
+export interface TokenBucketState {
+    allowed: boolean;
+    tokens: number;
+}
+
+// Storage for token buckets. take() must refill and take atomically, so that
+// concurrent requests sharing a store can't overdraw a bucket.
+export interface RateLimitStore {
+    take(key: string, config: RateLimitConfig, now: number): Promise<TokenBucketState>;
+}
+
+// Tokens added per millisecond
+export function getRefillRate(config: RateLimitConfig): number {
+    return config.limit / (config.windowSeconds * 1000);
+}
+
+// Buckets in this process only; each API instance limits separately
+export class MemoryRateLimitStore implements RateLimitStore {
+    private buckets = new Map<string, { tokens: number; refilledAt: number; fullAt: number }>();
+
+    constructor(sweepIntervalMs = 60 * 1000) {
+        // Drop buckets that have refilled completely; a missing bucket is a full one
+        setInterval(() => {
+            const now = Date.now();
+            for (const [key, bucket] of this.buckets) {
+                if (bucket.fullAt <= now) {
+                    this.buckets.delete(key);
+                }
+            }
+        }, sweepIntervalMs).unref();
+    }
+
+    async take(key: string, config: RateLimitConfig, now: number): Promise<TokenBucketState> {
+        const rate = getRefillRate(config);
+        const bucket = this.buckets.get(key);
+        const elapsed = bucket ? Math.max(0, now - bucket.refilledAt) : 0;
+        const refilled = bucket ? Math.min(config.limit, bucket.tokens + elapsed * rate) : config.limit;
+
+        const allowed = refilled >= 1;
+        const tokens = allowed ? refilled - 1 : refilled;
+        this.buckets.set(key, { tokens, refilledAt: now, fullAt: now + (config.limit - tokens) / rate });
+
+        return { allowed, tokens };
+    }
+}
+
+// Buckets in MongoDB, refilled and taken from in a single update pipeline
+export class MongoRateLimitStore implements RateLimitStore {
+    async take(key: string, config: RateLimitConfig, now: number): Promise<TokenBucketState> {
+        try {
+            return await this.update(key, config, now);
+        } catch (error) {
+            // Two first requests raced to create the bucket; the second one now updates it
+            if ((error as { code?: number }).code !== 11000) {
+                throw error;
+            }
+            return this.update(key, config, now);
+        }
+    }
+
+    private async update(key: string, config: RateLimitConfig, now: number): Promise<TokenBucketState> {
+        const rate = getRefillRate(config);
+
+        const bucket = await RateLimitBucket.findOneAndUpdate(
+            { key },
+            [
+                {
+                    $set: {
+                        tokens: {
+                            $min: [
+                                config.limit,
+                                {
+                                    $add: [
+                                        { $ifNull: ['$tokens', config.limit] },
+                                        { $multiply: [{ $max: [0, { $subtract: [now, { $ifNull: ['$refilledAt', now] }] }] }, rate] },
+                                    ],
+                                },
+                            ],
+                        },
+                    },
+                },
+                { $set: { allowed: { $gte: ['$tokens', 1] } } },
+                {
+                    $set: {
+                        tokens: { $cond: ['$allowed', { $subtract: ['$tokens', 1] }, '$tokens'] },
+                        refilledAt: now,
+                        expiresAt: new Date(now + config.windowSeconds * 1000),
+                    },
+                },
+            ],
+            { upsert: true, new: true, updatePipeline: true, projection: { _id: 0, allowed: 1, tokens: 1 } }
+        ).lean<TokenBucketState>();
+
+        return { allowed: bucket!.allowed, tokens: bucket!.tokens };
+    }
+}
+
+let store: RateLimitStore = RATE_LIMIT_STORE === 'mongo' ? new MongoRateLimitStore() : new MemoryRateLimitStore();
+
+export function getRateLimitStore(): RateLimitStore {
+    return store;
+}
+
+// Plug in another store (e.g. Redis) before the server starts
+export function setRateLimitStore(rateLimitStore: RateLimitStore): void {
+    store = rateLimitStore;
+}
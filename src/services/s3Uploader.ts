@@ -1,7 +1,7 @@
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import { Upload } from '@aws-sdk/lib-storage';
 
-const s3Client = new S3Client({
+export const s3Client = new S3Client({
     region: process.env.AWS_REGION || 'us-east-1',
     credentials: {
         accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
@@ -11,7 +11,8 @@ const s3Client = new S3Client({
 
 export async function uploadToS3(
     audioBuffer: Buffer,
-    noteId: string
+    noteId: string,
+    signal?: AbortSignal
 ): Promise<string> {
     const bucket = process.env.S3_BUCKET_NAME;
     if (!bucket) {
@@ -23,6 +24,7 @@ export async function uploadToS3(
     const key = `podcasts/${filename}`;
 
     try {
+        signal?.throwIfAborted();
         console.log(`Uploading to S3: ${key}`);
 
         const upload = new Upload({
@@ -36,6 +38,14 @@ export async function uploadToS3(
             },
         });
 
+        // Abort the multipart upload if the job is cancelled
+        const abortUpload = () => {
+            upload.abort().catch(() => {
+                // Upload may have already finished
+            });
+        };
+        signal?.addEventListener('abort', abortUpload, { once: true });
+
         // Track upload progress
         upload.on('httpUploadProgress', (progress) => {
             if (progress.loaded && progress.total) {
@@ -44,7 +54,11 @@ export async function uploadToS3(
             }
         });
 
-        await upload.done();
+        try {
+            await upload.done();
+        } finally {
+            signal?.removeEventListener('abort', abortUpload);
+        }
 
         // Construct public URL
         const region = process.env.AWS_REGION || 'us-east-1';
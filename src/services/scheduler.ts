@@ -0,0 +1,272 @@
+import { Schedule } from '../models/Schedule.js';
+import type { CreateScheduleRequest, PodcastJob, PodcastSchedule } from '../types/jobs.js';
+import { getPlan, resolvePriority } from '../config/plans.js';
+import { parseCron, getNextRun } from './cronExpression.js';
+import { jobQueue } from './jobQueue.js';
+import { InsufficientCreditsError } from './creditLedger.js';
+import { getPodcastLength } from './podcastLength.js';
+import { getKeyContextById, hasScope } from '../middleware/apiKeyAuth.js';
+import type { PlanName } from '../types/index.js';
+
+// How often the scheduler looks for due schedules
+const SCHEDULER_POLL_INTERVAL_MS = parseInt(process.env.SCHEDULER_POLL_INTERVAL_MS || '15000');
+
+// Due schedules handled per tick
+const DUE_BATCH_SIZE = 100;
+
+// Exclude internal fields from API responses
+const SCHEDULE_PROJECTION = { _id: 0, __v: 0 };
+
+// Why a schedule's key can no longer make runs
+const KEY_PAUSE_REASONS = {
+    unknown: 'API key no longer exists',
+    revoked: 'API key was revoked',
+    expired: 'API key expired',
+};
+
+// Next cron occurrence strictly after `after`
+function getNextCronRun(schedule: Pick<PodcastSchedule, 'cron' | 'timezone'>, after: Date): Date | null {
+    return getNextRun(parseCron(schedule.cron!), after, schedule.timezone);
+}
+
+// MongoDB-backed schedules that enqueue jobs through jobQueue when due.
+//
+// Missed runs are coalesced: a schedule found overdue (e.g. after downtime)
+// enqueues exactly one job for its overdue run time, then moves on to the
+// first occurrence after now. Runs are claimed atomically, so several
+// processes can run the scheduler without enqueueing a run twice.
+class Scheduler {
+    // Create a schedule; its first run is runAt or the next cron occurrence
+    async createSchedule(request: CreateScheduleRequest): Promise<PodcastSchedule> {
+        const scheduleId = `sched_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        const now = new Date();
+        const timezone = request.timezone || 'UTC';
+
+        const nextRunAt = request.cron
+            ? getNextCronRun({ cron: request.cron, timezone }, now)
+            : request.runAt;
+
+        if (!nextRunAt) {
+            throw new Error('Schedule never runs');
+        }
+
+        const schedule: PodcastSchedule = {
+            scheduleId,
+            ...request,
+            status: 'active',
+            timezone,
+            nextRunAt,
+            runCount: 0,
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        await Schedule.create(schedule);
+
+        console.log(`🗓️  Created schedule: ${scheduleId} (next run ${nextRunAt.toISOString()})`);
+        return schedule;
+    }
+
+    // Get a tenant's schedule
+    async getSchedule(scheduleId: string, tenantId: string): Promise<PodcastSchedule | null> {
+        return Schedule.findOne({ scheduleId, tenantId }, SCHEDULE_PROJECTION).lean<PodcastSchedule>();
+    }
+
+    // List a tenant's schedules, newest first
+    async listSchedules(tenantId: string): Promise<PodcastSchedule[]> {
+        return Schedule.find({ tenantId }, SCHEDULE_PROJECTION)
+            .sort({ createdAt: -1 })
+            .lean<PodcastSchedule[]>();
+    }
+
+    // Stop an active schedule from running until it is resumed
+    async pauseSchedule(scheduleId: string, tenantId: string): Promise<PodcastSchedule | null> {
+        const schedule = await Schedule.findOneAndUpdate(
+            { scheduleId, tenantId, status: 'active' },
+            { $set: { status: 'paused', updatedAt: new Date() }, $unset: { pausedReason: 1 } },
+            { new: true, projection: SCHEDULE_PROJECTION }
+        ).lean<PodcastSchedule>();
+
+        if (schedule) {
+            console.log(`⏸️  Paused schedule: ${scheduleId}`);
+        }
+
+        return schedule;
+    }
+
+    // Resume a paused schedule. Recurring schedules continue from the next
+    // occurrence after now (runs during the pause are skipped); a one-off
+    // schedule whose time passed while paused runs on the next tick. Later runs
+    // are made for the resuming key, so a schedule paused because its key was
+    // revoked can be taken over by another key of the tenant.
+    async resumeSchedule(
+        scheduleId: string,
+        tenantId: string,
+        owner: { apiKeyId: string; plan: PlanName }
+    ): Promise<PodcastSchedule | null> {
+        const paused = await Schedule.findOne({ scheduleId, tenantId, status: 'paused' }).lean<PodcastSchedule>();
+        if (!paused) {
+            return null;
+        }
+
+        const now = new Date();
+        const nextRunAt = paused.cron ? getNextCronRun(paused, now) : paused.runAt;
+
+        const schedule = await Schedule.findOneAndUpdate(
+            { scheduleId, tenantId, status: 'paused' },
+            nextRunAt
+                ? { $set: { status: 'active', ...owner, nextRunAt, updatedAt: now }, $unset: { pausedReason: 1 } }
+                : { $set: { status: 'completed', updatedAt: now }, $unset: { nextRunAt: 1, pausedReason: 1 } },
+            { new: true, projection: SCHEDULE_PROJECTION }
+        ).lean<PodcastSchedule>();
+
+        if (schedule) {
+            console.log(`▶️  Resumed schedule: ${scheduleId}`);
+        }
+
+        return schedule;
+    }
+
+    // Delete a schedule; jobs it already enqueued are unaffected
+    async deleteSchedule(scheduleId: string, tenantId: string): Promise<boolean> {
+        const result = await Schedule.deleteOne({ scheduleId, tenantId });
+        return result.deletedCount > 0;
+    }
+
+    // Enqueue a job for every schedule that is due
+    async runDueSchedules(now: Date = new Date()): Promise<number> {
+        const due = await Schedule.find({ status: 'active', nextRunAt: { $lte: now } })
+            .sort({ nextRunAt: 1 })
+            .limit(DUE_BATCH_SIZE)
+            .lean<PodcastSchedule[]>();
+
+        let enqueued = 0;
+        for (const schedule of due) {
+            try {
+                if (await this.runSchedule(schedule, now)) {
+                    enqueued++;
+                }
+            } catch (error) {
+                console.error(`Failed to run schedule ${schedule.scheduleId}:`, error);
+            }
+        }
+
+        return enqueued;
+    }
+
+    // Claim one due run and enqueue its job. Returns false if another process claimed it
+    // first, or the schedule's key can no longer make runs (the schedule is then paused).
+    private async runSchedule(schedule: PodcastSchedule, now: Date): Promise<boolean> {
+        const scheduledFor = schedule.nextRunAt!;
+        const due = { scheduleId: schedule.scheduleId, status: 'active' as const, nextRunAt: scheduledFor };
+
+        // Runs act for the key as it is now, not as it was when the schedule was created
+        const key = await getKeyContextById(schedule.apiKeyId);
+        if (!key.valid || !hasScope(key.apiKey, 'podcasts:write')) {
+            const pausedReason = key.valid ? 'API key no longer has the podcasts:write scope' : KEY_PAUSE_REASONS[key.reason];
+            const paused = await Schedule.updateOne(due, { $set: { status: 'paused', pausedReason, updatedAt: now } });
+            if (paused.modifiedCount > 0) {
+                console.warn(`⏸️  Paused schedule ${schedule.scheduleId}: ${pausedReason}`);
+            }
+            return false;
+        }
+        const plan = getPlan(key.apiKey.plan);
+
+        // Coalesce missed runs: the next run is always in the future
+        const nextRunAt = schedule.cron ? getNextCronRun(schedule, now) : null;
+
+        const claimed = await Schedule.findOneAndUpdate(
+            due,
+            nextRunAt
+                ? { $set: { nextRunAt, plan: plan.name, lastRunAt: now, updatedAt: now }, $inc: { runCount: 1 } }
+                : { $set: { status: 'completed', plan: plan.name, lastRunAt: now, updatedAt: now }, $unset: { nextRunAt: 1 }, $inc: { runCount: 1 } }
+        );
+        if (!claimed) {
+            return false;
+        }
+
+        // The run is used up either way; the next one tries again
+        const length = getPodcastLength(schedule);
+        if (length.targetMinutes > plan.maxTargetMinutes) {
+            console.warn(
+                `⚠️  Schedule ${schedule.scheduleId} skipped a run: the ${plan.name} plan allows podcasts ` +
+                `of up to ${plan.maxTargetMinutes} minutes; ${length.targetMinutes} were requested`
+            );
+            return false;
+        }
+
+        let job: PodcastJob;
+        try {
+            job = await jobQueue.createJob({
+                noteId: schedule.noteId,
+                noteContent: schedule.noteContent,
+                userId: schedule.userId,
+                ...length,
+                style: schedule.style,
+                apiKeyId: schedule.apiKeyId,
+                tenantId: schedule.tenantId,
+                plan: plan.name,
+                concurrencyLimit: plan.maxConcurrentJobs,
+                priority: resolvePriority(plan, schedule.priority),
+                callbackUrl: schedule.callbackUrl,
+                scheduleId: schedule.scheduleId,
+                scheduledFor,
+            });
+        } catch (error) {
+            if (error instanceof InsufficientCreditsError) {
+                console.warn(`⚠️  Schedule ${schedule.scheduleId} skipped a run: ${error.message}`);
+                return false;
+            }
+            throw error;
+        }
+
+        await Schedule.updateOne({ scheduleId: schedule.scheduleId }, { $set: { lastJobId: job.jobId } });
+
+        const lateMs = now.getTime() - scheduledFor.getTime();
+        const late = lateMs > SCHEDULER_POLL_INTERVAL_MS * 2 ? ` (${Math.round(lateMs / 1000)}s late, missed runs coalesced)` : '';
+        console.log(`🗓️  Schedule ${schedule.scheduleId} enqueued job ${job.jobId}${late}`);
+
+        return true;
+    }
+}
+
+// Singleton instance
+export const scheduler = new Scheduler();
+
+// Poll timer, cleared when the scheduler stops
+let schedulerInterval: ReturnType<typeof setInterval> | undefined;
+
+// Start polling for due schedules (runs immediately to catch up after downtime)
+export function startScheduler(): void {
+    let isRunning = false;
+
+    const tick = async () => {
+        // Avoid overlapping runs when the database is slow
+        if (isRunning) {
+            return;
+        }
+
+        isRunning = true;
+        try {
+            await scheduler.runDueSchedules();
+        } catch (error) {
+            console.error('Scheduler error:', error);
+        } finally {
+            isRunning = false;
+        }
+    };
+
+    tick();
+    schedulerInterval = setInterval(tick, SCHEDULER_POLL_INTERVAL_MS);
+
+    console.log(`🗓️  Scheduler started (polling every ${SCHEDULER_POLL_INTERVAL_MS}ms)`);
+}
+
+// Stop polling; due runs are picked up by the next process that starts the scheduler
+export function stopScheduler(): void {
+    if (schedulerInterval) {
+        clearInterval(schedulerInterval);
+        schedulerInterval = undefined;
+        console.log('🛑 Scheduler stopped');
+    }
+}
@@ -1,44 +1,275 @@
 import { generateText, Output } from 'ai';
 import { openai } from '@ai-sdk/openai';
 import { z } from 'zod';
-import type { DialogueSegment, PodcastDuration, DurationConfig } from '../types/index.js';
+import type {
+    DialogueSegment,
+    DurationConfig,
+    DurationPreset,
+    PodcastLength,
+    PodcastFormat,
+    PodcastSpeaker,
+    PodcastStyle,
+    PodcastTone,
+    SpeakerPersona,
+} from '../types/index.js';
+import { providerMetrics } from './providerMetrics.js';
+import { DEFAULT_FORMAT, getSpeakers } from './speakers.js';
+import { getWordsPerMinute } from './audioGenerator.js';
 
-// Duration configurations
-const DURATION_CONFIGS: Record<PodcastDuration, DurationConfig> = {
-    short: {
-        targetWords: 600, // ~3-5 minutes at 150 words/min
-        description: '3-5 minute podcast focusing on key points only',
+// How the presets are described in the prompt
+const PRESET_DESCRIPTIONS: Record<DurationPreset, string> = {
+    short: '3-5 minute podcast focusing on key points only',
+    long: '8-10 minute podcast with detailed discussion and examples',
+};
+
+// Podcasts up to this long stick to the key points; longer ones go into detail
+const BRIEF_MAX_MINUTES = 5;
+
+// Words to write for the requested length at the voices' speaking rate
+function getDurationConfig(length: PodcastLength, wordsPerMinute: number): DurationConfig {
+    const { duration, targetMinutes } = length;
+    return {
+        targetWords: Math.round(targetMinutes * wordsPerMinute),
+        description: duration === 'custom'
+            ? `${targetMinutes}-minute podcast ${targetMinutes <= BRIEF_MAX_MINUTES ? 'focusing on key points only' : 'with detailed discussion and examples'}`
+            : PRESET_DESCRIPTIONS[duration],
+    };
+}
+
+// How each tone should sound
+const TONE_GUIDELINES: Record<PodcastTone, string> = {
+    casual: 'Relaxed and friendly, like two friends chatting; light humor and everyday examples are welcome',
+    academic: 'Precise and rigorous; define terms, explain the reasoning behind claims and avoid slang',
+    energetic: 'Upbeat and enthusiastic, with lively pacing, vivid examples and short punchy sentences',
+};
+
+export interface GenerateScriptOptions {
+    style?: PodcastStyle;
+    signal?: AbortSignal;
+}
+
+// Speakers of an episode and how the prompt refers to them: HOST, GUEST and
+// NARRATOR for the default roster, their quoted ids for a custom one
+interface Cast {
+    speakers: PodcastSpeaker[];
+    labels: string[];
+    custom: boolean;
+}
+
+// Format-specific parts of the prompt
+interface FormatTemplate {
+    intro: string; // What the notes are converted into
+    roles: string[]; // Guidelines on what each speaker does
+    closing: string; // Final instruction on the segments to generate
+}
+
+// Smallest share of the words the main speaker of a lecture must have
+const MIN_LECTURER_SHARE = 0.6;
+
+// Turns each side of a debate must get at least
+const MIN_DEBATE_TURNS = 2;
+
+function quoteIds(speakers: PodcastSpeaker[]): string {
+    return speakers.map(speaker => `"${speaker.id}"`).join(', ');
+}
+
+// Prompt templates of each episode format
+const FORMAT_TEMPLATES: Record<PodcastFormat, (cast: Cast) => FormatTemplate> = {
+    dialogue: ({ speakers, labels, custom }) => custom ? {
+        intro: `a natural, engaging podcast conversation between ${speakers.length} speakers`,
+        roles: [
+            `- ${labels[0]} hosts: introduces the topic, asks questions and guides the conversation`,
+            '- Every speaker takes part and brings their own perspective',
+        ],
+        closing: `Generate an array of dialogue segments whose speaker is one of: ${quoteIds(speakers)}.`,
+    } : {
+        // The original prompt, unchanged for podcasts that don't pick a format
+        intro: 'a natural, engaging two-person podcast dialogue between a HOST and a GUEST',
+        roles: [
+            '- The HOST asks insightful questions and guides the conversation',
+            '- The GUEST explains concepts clearly and provides examples',
+        ],
+        closing: 'Generate an array of dialogue segments alternating between host and guest.',
+    },
+    narration: ({ speakers, labels }) => ({
+        intro: 'a single-voice narrated podcast episode',
+        roles: [
+            `- ${labels[0]} is the only speaker and narrates the whole episode; there is no second voice, no interview and no questions`,
+            '- Address the listener directly and signpost each section so the episode is easy to follow by ear',
+        ],
+        closing: `Generate an array of narration segments, all spoken by "${speakers[0]!.id}" and split at natural paragraph breaks.`,
+    }),
+    interview: ({ speakers, labels }) => ({
+        intro: 'a podcast interview in which a host draws out an expert',
+        roles: [
+            `- ${labels[0]} is the interviewer: asks open questions, follows up on the most interesting answers and keeps their own turns short`,
+            `- ${labels[1]} is the expert: answers in depth with examples, stories and opinions, and does most of the talking`,
+        ],
+        closing: `Generate an array of dialogue segments that opens with "${speakers[0]!.id}" introducing "${speakers[1]!.id}" and alternates between questions and answers.`,
+    }),
+    debate: ({ speakers, labels }) => ({
+        intro: 'a podcast debate between two speakers arguing opposing positions',
+        roles: [
+            `- ${labels[0]} argues for the main idea or approach in the notes and ${labels[1]} argues against it`,
+            '- Each speaker makes their case with evidence, rebuts the other\'s points directly and concedes fair points',
+            '- Keep it balanced: both speakers get a similar share of the words',
+            '- End with each speaker summing up their position',
+        ],
+        closing: `Generate an array of dialogue segments alternating between "${speakers[0]!.id}" and "${speakers[1]!.id}".`,
+    }),
+    lecture: ({ speakers, labels }) => ({
+        intro: 'a podcast lecture given by one main speaker',
+        roles: [
+            `- ${labels[0]} gives the lecture: introduces the topic, teaches it section by section and ends with a recap`,
+            `- ${labels.slice(1).join(', ')} only occasionally (a few times in the whole episode) ask a short clarifying question, which ${labels[0]} answers`,
+            `- ${labels[0]} speaks the large majority of the words`,
+        ],
+        closing: `Generate an array of segments: long segments by "${speakers[0]!.id}" with an occasional short question from ${quoteIds(speakers.slice(1))}.`,
+    }),
+};
+
+function countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+}
+
+// Structure rules of each format, checked on the generated script. Each returns
+// what is wrong with the script, or undefined if it fits.
+const FORMAT_RULES: Record<PodcastFormat, (dialogue: DialogueSegment[], speakers: PodcastSpeaker[]) => string | undefined> = {
+    dialogue: () => undefined,
+    narration: dialogue => {
+        const voices = new Set(dialogue.map(segment => segment.speaker)).size;
+        return voices === 1 ? undefined : `narration must have exactly one speaker, got ${voices}`;
     },
-    long: {
-        targetWords: 1350, // ~8-10 minutes at 150 words/min
-        description: '8-10 minute podcast with detailed discussion and examples',
+    interview: (dialogue, [interviewer, expert]) => {
+        if (dialogue[0]!.speaker !== interviewer!.id) {
+            return `the interview must open with "${interviewer!.id}"`;
+        }
+        const words = (id: string) => dialogue
+            .filter(segment => segment.speaker === id)
+            .reduce((total, segment) => total + countWords(segment.text), 0);
+        return words(expert!.id) > words(interviewer!.id)
+            ? undefined
+            : `the expert "${expert!.id}" must speak more than the interviewer`;
+    },
+    debate: (dialogue, speakers) => {
+        const short = speakers.find(speaker => dialogue.filter(segment => segment.speaker === speaker.id).length < MIN_DEBATE_TURNS);
+        return short ? `"${short.id}" must get at least ${MIN_DEBATE_TURNS} turns in the debate` : undefined;
+    },
+    lecture: (dialogue, [lecturer]) => {
+        const total = dialogue.reduce((sum, segment) => sum + countWords(segment.text), 0);
+        const lecturerWords = dialogue
+            .filter(segment => segment.speaker === lecturer!.id)
+            .reduce((sum, segment) => sum + countWords(segment.text), 0);
+        return lecturerWords >= total * MIN_LECTURER_SHARE
+            ? undefined
+            : `the lecturer "${lecturer!.id}" must speak at least ${MIN_LECTURER_SHARE * 100}% of the words`;
     },
 };
 
-// Zod schema for dialogue segment
-const dialogueSegmentSchema = z.object({
-    speaker: z.enum(['host', 'guest']).describe('The speaker: either host or guest'),
-    text: z.string().describe('What the speaker says in this segment'),
-});
+// Throw if a generated script doesn't have the shape its format requires
+function validateFormat(format: PodcastFormat, dialogue: DialogueSegment[], speakers: PodcastSpeaker[]): void {
+    if (dialogue.length === 0) {
+        throw new Error('Script has no segments');
+    }
+
+    const silent = speakers.filter(speaker => !dialogue.some(segment => segment.speaker === speaker.id));
+    const problem = silent.length > 0
+        ? `${quoteIds(silent)} never speak${silent.length === 1 ? 's' : ''}`
+        : FORMAT_RULES[format](dialogue, speakers);
+
+    if (problem) {
+        throw new Error(`Script doesn't fit the ${format} format: ${problem}`);
+    }
+}
+
+// Prompt lines describing one speaker's persona
+function describePersona(label: string, persona: SpeakerPersona): string[] {
+    const lines: string[] = [];
+    if (persona.name) {
+        lines.push(`- The ${label} is called ${persona.name}; the speakers may address each other by name`);
+    }
+    if (persona.role) {
+        lines.push(`- The ${label} is ${persona.role}`);
+    }
+    if (persona.style) {
+        lines.push(`- The ${label}'s speaking style: ${persona.style}`);
+    }
+    return lines;
+}
+
+// Prompt line introducing one speaker of a custom roster
+function describeSpeaker(speaker: PodcastSpeaker): string {
+    const details = [
+        speaker.name && `called ${speaker.name}`,
+        speaker.role,
+        speaker.style && `speaking style: ${speaker.style}`,
+    ].filter(Boolean);
+    return `  - "${speaker.id}"${details.length > 0 ? `: ${details.join('; ')}` : ''}`;
+}
+
+// Prompt lines for the requested personas, tone and audience (personas only
+// apply to the default roster; a custom roster is described with the roles)
+function describeStyle(style: PodcastStyle | undefined, cast: Cast): string[] {
+    if (!style) {
+        return [];
+    }
+
+    const lines = cast.custom
+        ? []
+        : cast.speakers.flatMap((speaker, i) => describePersona(cast.labels[i]!, speaker));
+    if (style.tone) {
+        lines.push(`- Tone: ${TONE_GUIDELINES[style.tone]}`);
+    }
+    if (style.audience) {
+        lines.push(`- Audience: ${style.audience}; pitch explanations and vocabulary at them`);
+    }
+    return lines;
+}
+
+// Zod schema for dialogue segment, limited to the podcast's speakers
+function createDialogueSegmentSchema(speakerIds: string[]) {
+    return z.object({
+        speaker: z.enum(speakerIds as [string, ...string[]]).describe(`The speaker: one of ${speakerIds.join(', ')}`),
+        text: z.string().describe('What the speaker says in this segment'),
+    });
+}
+
+// The podcast's speakers with the labels the prompt uses for them
+function getCast(style: PodcastStyle | undefined, format: PodcastFormat): Cast {
+    const speakers = getSpeakers(style);
+    if (style?.speakers) {
+        return { speakers, labels: speakers.map(speaker => `"${speaker.id}"`), custom: true };
+    }
+    return { speakers, labels: format === 'narration' ? ['NARRATOR'] : ['HOST', 'GUEST'], custom: false };
+}
 
 export async function generateScript(
     noteContent: string,
-    duration: PodcastDuration
+    length: PodcastLength,
+    options: GenerateScriptOptions = {}
 ): Promise<DialogueSegment[]> {
-    const config = DURATION_CONFIGS[duration];
+    const { style, signal } = options;
+    const format = style?.format ?? DEFAULT_FORMAT;
+    const cast = getCast(style, format);
+    const config = getDurationConfig(length, getWordsPerMinute(cast.speakers));
+    const template = FORMAT_TEMPLATES[format](cast);
+    const roles = [
+        ...(cast.custom ? ['- The speakers, by the id to use for their segments:', ...cast.speakers.map(describeSpeaker)] : []),
+        ...template.roles,
+    ].join('\n');
+    const styleGuidelines = describeStyle(style, cast).map(line => `\n${line}`).join('');
 
-    const systemPrompt = `You are an expert podcast script writer. Convert the provided notes into a natural, engaging two-person podcast dialogue between a HOST and a GUEST.
+    const systemPrompt = `You are an expert podcast script writer. Convert the provided notes into ${template.intro}.
 
 Guidelines:
 - Target length: ${config.targetWords} words (${config.description})
-- The HOST asks insightful questions and guides the conversation
-- The GUEST explains concepts clearly and provides examples
+${roles}
 - Make it conversational and natural, not robotic
 - Use simple language that's easy to understand when spoken
 - Break down complex topics into digestible segments
-- ${duration === 'short' ? 'Focus ONLY on the most important key points' : 'Provide detailed explanations with examples and context'}
+- ${length.targetMinutes <= BRIEF_MAX_MINUTES ? 'Focus ONLY on the most important key points' : 'Provide detailed explanations with examples and context'}${styleGuidelines}
 
-Generate an array of dialogue segments alternating between host and guest.`;
+${template.closing}`;
 
     const userPrompt = `Convert these notes into a ${config.description}:
 
@@ -47,25 +278,28 @@ ${noteContent}
 Remember: Target ${config.targetWords} words total across all dialogue segments.`;
 
     try {
-        console.log(`Generating ${duration} podcast script...`);
+        console.log(`Generating ${length.targetMinutes}-minute ${format} podcast script...`);
 
-        const { output } = await generateText({
+        const { output } = await providerMetrics.track('llm', 'OpenAI', signal, () => generateText({
             model: openai('gpt-4.1'),
             system: systemPrompt,
             prompt: userPrompt,
             output: Output.array({
-                element: dialogueSegmentSchema,
+                element: createDialogueSegmentSchema(cast.speakers.map(speaker => speaker.id)),
             }),
             temperature: 0.7,
-        });
+            abortSignal: signal,
+        }));
 
         // The output is already validated and typed correctly
         const dialogue: DialogueSegment[] = output.map(segment => ({
-            speaker: segment.speaker as 'host' | 'guest',
+            speaker: segment.speaker,
             text: segment.text,
         }));
 
-        console.log(`Generated ${dialogue.length} dialogue segments (${duration} podcast)`);
+        validateFormat(format, dialogue, cast.speakers);
+
+        console.log(`Generated ${dialogue.length} dialogue segments (${length.targetMinutes}-minute ${format} podcast)`);
         return dialogue;
     } catch (error) {
         console.error('Error generating script:', error);
@@ -0,0 +1,82 @@
+// How long active jobs get to finish after a shutdown signal before they are interrupted
+export const SHUTDOWN_GRACE_PERIOD_MS = parseInt(process.env.SHUTDOWN_GRACE_PERIOD_MS || '30000');
+
+// Extra time after the grace period before the process exits regardless (covers
+// interrupted work recording its outcome)
+const FORCE_EXIT_DELAY_MS = 20000;
+
+type ShutdownStep = () => Promise<void> | void;
+
+// Abort reason for work interrupted because the process is shutting down
+export class WorkerShutdownError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WorkerShutdownError';
+    }
+}
+
+// Runs registered shutdown steps in order on SIGINT/SIGTERM, then exits
+class ShutdownManager {
+    private steps: { name: string; run: ShutdownStep }[] = [];
+    private shuttingDown = false;
+    private gracePeriodEndsAt?: number;
+    private readonly controller = new AbortController();
+
+    get isShuttingDown(): boolean {
+        return this.shuttingDown;
+    }
+
+    // Aborted as soon as shutdown starts, e.g. to end long-lived event streams
+    get signal(): AbortSignal {
+        return this.controller.signal;
+    }
+
+    // Time left until in-flight work is interrupted (the full grace period before shutdown)
+    get remainingGracePeriodMs(): number {
+        return this.gracePeriodEndsAt === undefined
+            ? SHUTDOWN_GRACE_PERIOD_MS
+            : Math.max(0, this.gracePeriodEndsAt - Date.now());
+    }
+
+    // Steps run in registration order; a failing step doesn't stop the rest
+    register(name: string, run: ShutdownStep): void {
+        this.steps.push({ name, run });
+    }
+
+    listen(): void {
+        process.on('SIGINT', () => this.shutdown('SIGINT'));
+        process.on('SIGTERM', () => this.shutdown('SIGTERM'));
+    }
+
+    async shutdown(signal: string): Promise<void> {
+        // A second signal skips the grace period
+        if (this.shuttingDown) {
+            console.warn(`⚠️  Received ${signal} during shutdown, exiting immediately`);
+            process.exit(1);
+        }
+
+        this.shuttingDown = true;
+        this.gracePeriodEndsAt = Date.now() + SHUTDOWN_GRACE_PERIOD_MS;
+        console.log(`\n🛑 Received ${signal}, shutting down gracefully...`);
+        this.controller.abort(new WorkerShutdownError(`Received ${signal}`));
+
+        setTimeout(() => {
+            console.error('❌ Graceful shutdown timed out, exiting');
+            process.exit(1);
+        }, SHUTDOWN_GRACE_PERIOD_MS + FORCE_EXIT_DELAY_MS).unref();
+
+        for (const step of this.steps) {
+            try {
+                await step.run();
+            } catch (error) {
+                console.error(`Shutdown step "${step.name}" failed:`, error);
+            }
+        }
+
+        console.log('👋 Shutdown complete');
+        process.exit(0);
+    }
+}
+
+// Singleton instance
+export const shutdownManager = new ShutdownManager();
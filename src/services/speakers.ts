@@ -0,0 +1,30 @@
+import type { PodcastFormat, PodcastSpeaker, PodcastStyle } from '../types/index.js';
+
+// Largest speaker roster a request may define
+export const MAX_SPEAKERS = 6;
+
+// Format of podcasts that don't ask for one
+export const DEFAULT_FORMAT: PodcastFormat = 'dialogue';
+
+// How many speakers each format is written for
+export const FORMAT_SPEAKER_LIMITS: Record<PodcastFormat, { min: number; max: number }> = {
+    dialogue: { min: 2, max: MAX_SPEAKERS },
+    narration: { min: 1, max: 1 },
+    interview: { min: 2, max: 2 },
+    debate: { min: 2, max: 2 },
+    lecture: { min: 2, max: MAX_SPEAKERS },
+};
+
+// The speakers of a podcast: its custom roster, or the host and guest with their
+// personas (just the host for narration)
+export function getSpeakers(style?: PodcastStyle): PodcastSpeaker[] {
+    if (style?.speakers) {
+        return style.speakers;
+    }
+
+    const host: PodcastSpeaker = { id: 'host', ...style?.personas?.host };
+    if (style?.format === 'narration') {
+        return [host];
+    }
+    return [host, { id: 'guest', ...style?.personas?.guest }];
+}
@@ -0,0 +1,55 @@
+import { Job } from '../models/Job.js';
+import { Podcast } from '../models/Podcast.js';
+import { apiKeyStore } from './apiKeyStore.js';
+
+// Tenant for records that predate tenants and can't be traced to an API key
+// (sync generations and jobs created without a key). Left unassigned when unset.
+const LEGACY_TENANT_ID = process.env.LEGACY_TENANT_ID?.trim() || undefined;
+
+const UNASSIGNED = { tenantId: { $exists: false } };
+
+async function countUnassigned(): Promise<[number, number]> {
+    return Promise.all([Job.countDocuments(UNASSIGNED), Podcast.countDocuments(UNASSIGNED)]);
+}
+
+// Assign podcasts and jobs created before tenants were introduced to a tenant, so
+// they stay visible to their owners. Safe to run on every start and from several
+// processes at once: it only touches records that still have no tenant.
+export async function backfillTenants(): Promise<void> {
+    const [jobsBefore, podcastsBefore] = await countUnassigned();
+    if (jobsBefore === 0 && podcastsBefore === 0) {
+        return;
+    }
+
+    // A job belongs to the tenant of the key that created it. Keys from API_KEYS are
+    // their own tenant; stored keys name theirs.
+    const apiKeyIds = await Job.distinct('apiKeyId', { ...UNASSIGNED, apiKeyId: { $exists: true } }) as string[];
+    for (const apiKeyId of apiKeyIds) {
+        const storedKey = await apiKeyStore.getKey(apiKeyId);
+        await Job.updateMany({ ...UNASSIGNED, apiKeyId }, { $set: { tenantId: storedKey?.tenantId ?? apiKeyId } });
+    }
+
+    // A podcast belongs to the tenant of its job
+    await Podcast.aggregate([
+        { $match: { ...UNASSIGNED, jobId: { $exists: true } } },
+        { $lookup: { from: Job.collection.name, localField: 'jobId', foreignField: 'jobId', as: 'job' } },
+        { $project: { tenantId: { $first: '$job.tenantId' } } },
+        { $match: { tenantId: { $type: 'string' } } },
+        { $merge: { into: Podcast.collection.name, on: '_id', whenMatched: 'merge', whenNotMatched: 'discard' } },
+    ]);
+
+    if (LEGACY_TENANT_ID) {
+        await Job.updateMany(UNASSIGNED, { $set: { tenantId: LEGACY_TENANT_ID } });
+        await Podcast.updateMany(UNASSIGNED, { $set: { tenantId: LEGACY_TENANT_ID } });
+    }
+
+    const [jobsAfter, podcastsAfter] = await countUnassigned();
+    console.log(`🏷️  Assigned ${jobsBefore - jobsAfter} legacy jobs and ${podcastsBefore - podcastsAfter} legacy podcasts to tenants`);
+
+    if (jobsAfter > 0 || podcastsAfter > 0) {
+        console.warn(
+            `⚠️  ${jobsAfter} jobs and ${podcastsAfter} podcasts have no tenant and are hidden from the API. ` +
+            'Set LEGACY_TENANT_ID to assign them to a tenant.'
+        );
+    }
+}
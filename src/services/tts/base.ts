@@ -1,14 +1,63 @@
-import type { DialogueSegment, AudioSegment } from '../../types/index.js';
+import type { DialogueSegment, VoiceConfig } from '../../types/index.js';
+
+// Audio synthesized for a single dialogue segment
+export interface SynthesizedAudio {
+    audioBuffer: Buffer;
+    duration: number; // seconds
+}
 
 // TTS Provider interface
 export interface TTSProvider {
-    generateAudio(dialogueSegments: DialogueSegment[]): Promise<AudioSegment[]>;
+    readonly name: string;
+    // Default voices of the host and guest
+    readonly voices: VoiceConfig;
+    // Voices handed out, in order, to other speakers that don't choose one
+    readonly voicePool: string[];
+    // Speaking rate used to size scripts and estimate durations: the provider's typical
+    // words per minute, and configured rates of individual voices
+    readonly wordsPerMinute: number;
+    readonly voiceWordsPerMinute: Record<string, number>;
+    // Implementations should pass signal to their HTTP requests so cancelled jobs stop quickly
+    synthesize(segment: DialogueSegment, voiceId: string, signal?: AbortSignal): Promise<SynthesizedAudio>;
+}
+
+// Typical conversational speaking rate, for providers and voices without their own
+export const DEFAULT_WORDS_PER_MINUTE = 150;
+
+// A provider's speaking rates: its typical words per minute, and rates per voice ID
+export interface SpeakingRates {
+    wordsPerMinute: number;
+    voiceWordsPerMinute: Record<string, number>;
+}
+
+// A provider's default rates with environment overrides: <PREFIX>_WORDS_PER_MINUTE
+// replaces the typical rate, and <PREFIX>_VOICE_WORDS_PER_MINUTE ("voiceId:wpm,...")
+// replaces individual voices. Measure a voice by dividing the words of some
+// generated audio by its length in minutes.
+export function getSpeakingRates(envPrefix: string, defaults: SpeakingRates): SpeakingRates {
+    const wordsPerMinute = parseFloat(process.env[`${envPrefix}_WORDS_PER_MINUTE`] || String(defaults.wordsPerMinute));
+    const voiceWordsPerMinute = { ...defaults.voiceWordsPerMinute };
+
+    for (const entry of process.env[`${envPrefix}_VOICE_WORDS_PER_MINUTE`]?.split(',') || []) {
+        const separator = entry.lastIndexOf(':');
+        const voiceId = entry.slice(0, separator).trim();
+        const rate = parseFloat(entry.slice(separator + 1));
+        if (separator > 0 && rate > 0) {
+            voiceWordsPerMinute[voiceId] = rate;
+        }
+    }
+
+    return { wordsPerMinute: wordsPerMinute > 0 ? wordsPerMinute : defaults.wordsPerMinute, voiceWordsPerMinute };
+}
+
+// Speaking rate of one of a provider's voices
+export function getVoiceWordsPerMinute(provider: TTSProvider, voiceId: string): number {
+    return provider.voiceWordsPerMinute[voiceId] ?? provider.wordsPerMinute;
 }
 
-// Helper to estimate audio duration from text
-export function estimateDuration(text: string): number {
-    // Average speaking rate: ~150 words per minute = 2.5 words per second
+// Helper to estimate audio duration from text spoken at the given rate
+export function estimateDuration(text: string, wordsPerMinute: number = DEFAULT_WORDS_PER_MINUTE): number {
     const words = text.split(/\s+/).length;
-    const seconds = (words / 2.5) * 1.1; // Add 10% buffer
+    const seconds = (words / wordsPerMinute) * 60 * 1.1; // Add 10% buffer
     return seconds;
 }
@@ -1,17 +1,42 @@
 import { ElevenLabsClient } from 'elevenlabs';
-import type { DialogueSegment, AudioSegment } from '../../types/index.js';
-import type { TTSProvider } from './base.js';
+import type { DialogueSegment, VoiceConfig } from '../../types/index.js';
+import type { TTSProvider, SynthesizedAudio } from './base.js';
+import { DEFAULT_WORDS_PER_MINUTE, getSpeakingRates } from './base.js';
 
 const elevenlabs = new ElevenLabsClient({
     apiKey: process.env.ELEVENLABS_API_KEY,
 });
 
 // Voice IDs for ElevenLabs
-const VOICES = {
+const VOICES: VoiceConfig = {
     host: 'EXAVITQu4vr4xnSDxMaL', // Rachel - warm, professional female voice
     guest: 'pNInz6obpgDQGcFmaJgB', // Adam - clear, engaging male voice
 };
 
+// Premade voices for further speakers
+const VOICE_POOL = [
+    'EXAVITQu4vr4xnSDxMaL', // Rachel
+    'pNInz6obpgDQGcFmaJgB', // Adam
+    'ErXwobaYiN019PkySvjV', // Antoni
+    'MF3mGyEYCl7XYWbV9V6O', // Elli
+    'TxGEqnHWrfWFTfGW9XjX', // Josh
+    'AZnzlk1XvdvUeBnXmlld', // Domi
+];
+
+// Words per minute per voice at default settings. Starting estimates; override them
+// with measured rates through ELEVENLABS_WORDS_PER_MINUTE and ELEVENLABS_VOICE_WORDS_PER_MINUTE.
+const SPEAKING_RATES = getSpeakingRates('ELEVENLABS', {
+    wordsPerMinute: DEFAULT_WORDS_PER_MINUTE,
+    voiceWordsPerMinute: {
+        EXAVITQu4vr4xnSDxMaL: 157, // Rachel
+        pNInz6obpgDQGcFmaJgB: 146, // Adam
+        ErXwobaYiN019PkySvjV: 152, // Antoni
+        MF3mGyEYCl7XYWbV9V6O: 162, // Elli
+        TxGEqnHWrfWFTfGW9XjX: 149, // Josh
+        AZnzlk1XvdvUeBnXmlld: 165, // Domi
+    },
+});
+
 // Helper to convert stream to buffer
 async function streamToBuffer(stream: ReadableStream): Promise<Buffer> {
     const reader = stream.getReader();
@@ -27,74 +52,47 @@ async function streamToBuffer(stream: ReadableStream): Promise<Buffer> {
 }
 
 export class ElevenLabsProvider implements TTSProvider {
-    async generateAudio(dialogueSegments: DialogueSegment[]): Promise<AudioSegment[]> {
-        console.log(`[ElevenLabs] Generating audio for ${dialogueSegments.length} segments...`);
-
-        const audioSegments: AudioSegment[] = [];
-        let cumulativeTime = 0;
-
-        for (let i = 0; i < dialogueSegments.length; i++) {
-            const segment = dialogueSegments[i];
-            if (!segment) continue;
-
-            const { speaker, text } = segment;
-            const voiceId = VOICES[speaker];
-
-            console.log(`[${i + 1}/${dialogueSegments.length}] Generating ${speaker} audio...`);
-
-            try {
-                // Generate audio using ElevenLabs
-                const audioStream = await elevenlabs.textToSpeech.convert(voiceId, {
-                    text,
-                    model_id: 'eleven_multilingual_v2',
-                    voice_settings: {
-                        stability: 0.5,
-                        similarity_boost: 0.75,
-                    },
-                });
-
-                // Convert stream to buffer
-                const chunks: Buffer[] = [];
-                for await (const chunk of audioStream as any) {
-                    chunks.push(Buffer.from(chunk));
-                }
-                const audioBuffer = Buffer.concat(chunks);
-
-                // Get audio duration using ffprobe (more accurate than estimation)
-                const ffmpeg = require('fluent-ffmpeg');
-                const duration = await new Promise<number>((resolve, reject) => {
-                    const tmpFile = `/tmp/audio-${Date.now()}.mp3`;
-                    require('fs').writeFileSync(tmpFile, audioBuffer);
-
-                    ffmpeg.ffprobe(tmpFile, (err: any, metadata: any) => {
-                        require('fs').unlinkSync(tmpFile);
-                        if (err) reject(err);
-                        else resolve(metadata.format.duration);
-                    });
-                });
-
-                const startTime = cumulativeTime;
-                const endTime = cumulativeTime + duration;
-
-                audioSegments.push({
-                    speaker,
-                    text,
-                    audioBuffer,
-                    duration,
-                    startTime,
-                    endTime,
-                });
-
-                cumulativeTime = endTime;
-
-                console.log(`  ✓ Generated ${duration.toFixed(2)}s of audio`);
-            } catch (error) {
-                console.error(`Error generating audio for segment ${i + 1}:`, error);
-                throw new Error(`Failed to generate audio: ${error instanceof Error ? error.message : 'Unknown error'}`);
-            }
+    readonly name = 'ElevenLabs';
+    readonly voices = VOICES;
+    readonly voicePool = VOICE_POOL;
+    readonly wordsPerMinute = SPEAKING_RATES.wordsPerMinute;
+    readonly voiceWordsPerMinute = SPEAKING_RATES.voiceWordsPerMinute;
+
+    async synthesize(segment: DialogueSegment, voiceId: string, signal?: AbortSignal): Promise<SynthesizedAudio> {
+        const { text } = segment;
+
+        // Generate audio using ElevenLabs
+        const audioStream = await elevenlabs.textToSpeech.convert(voiceId, {
+            text,
+            model_id: 'eleven_multilingual_v2',
+            voice_settings: {
+                stability: 0.5,
+                similarity_boost: 0.75,
+            },
+        }, {
+            abortSignal: signal,
+        });
+
+        // Convert stream to buffer
+        const chunks: Buffer[] = [];
+        for await (const chunk of audioStream as any) {
+            chunks.push(Buffer.from(chunk));
         }
-
-        console.log(`Total audio duration: ${cumulativeTime.toFixed(2)}s`);
-        return audioSegments;
+        const audioBuffer = Buffer.concat(chunks);
+
+        // Get audio duration using ffprobe (more accurate than estimation)
+        const ffmpeg = require('fluent-ffmpeg');
+        const duration = await new Promise<number>((resolve, reject) => {
+            const tmpFile = `/tmp/audio-${Date.now()}.mp3`;
+            require('fs').writeFileSync(tmpFile, audioBuffer);
+
+            ffmpeg.ffprobe(tmpFile, (err: any, metadata: any) => {
+                require('fs').unlinkSync(tmpFile);
+                if (err) reject(err);
+                else resolve(metadata.format.duration);
+            });
+        });
+
+        return { audioBuffer, duration };
     }
 }
@@ -1,89 +1,78 @@
 import axios from 'axios';
-import type { DialogueSegment, AudioSegment } from '../../types/index.js';
-import type { TTSProvider } from './base.js';
-import { estimateDuration } from './base.js';
+import type { DialogueSegment, VoiceConfig } from '../../types/index.js';
+import type { TTSProvider, SynthesizedAudio } from './base.js';
+import { DEFAULT_WORDS_PER_MINUTE, estimateDuration, getSpeakingRates, getVoiceWordsPerMinute } from './base.js';
 
 const UNREAL_SPEECH_API_KEY = process.env.UNREAL_SPEECH_API_KEY;
 const UNREAL_SPEECH_API_URL = 'https://api.v7.unrealspeech.com';
 
 // Voice IDs for Unreal Speech
-const VOICES = {
+const VOICES: VoiceConfig = {
     host: 'Scarlett', // Female voice
     guest: 'Dan', // Male voice
 };
 
-export class UnrealSpeechProvider implements TTSProvider {
-    async generateAudio(dialogueSegments: DialogueSegment[]): Promise<AudioSegment[]> {
-        console.log(`[Unreal Speech] Generating audio for ${dialogueSegments.length} segments...`);
-
-        const audioSegments: AudioSegment[] = [];
-        let cumulativeTime = 0;
-
-        for (let i = 0; i < dialogueSegments.length; i++) {
-            const segment = dialogueSegments[i];
-            if (!segment) continue;
-
-            const { speaker, text } = segment;
-            const voiceId = VOICES[speaker];
-
-            console.log(`[${i + 1}/${dialogueSegments.length}] Generating ${speaker} audio...`);
-
-            try {
-                // Use Unreal Speech /speech endpoint for synchronous generation
-                const response = await axios.post(
-                    `${UNREAL_SPEECH_API_URL}/speech`,
-                    {
-                        Text: text,
-                        VoiceId: voiceId,
-                        Bitrate: '192k',
-                        Speed: '0', // Normal speed
-                        Pitch: '1.0', // Normal pitch
-                        TimestampType: 'word', // Get word-level timestamps
-                    },
-                    {
-                        headers: {
-                            'Authorization': `Bearer ${UNREAL_SPEECH_API_KEY}`,
-                            'Content-Type': 'application/json',
-                        },
-                        responseType: 'json',
-                    }
-                );
+// Voices for further speakers
+const VOICE_POOL = ['Scarlett', 'Dan', 'Liv', 'Will', 'Amy'];
+
+// Words per minute per voice at normal speed. Starting estimates; override them with
+// measured rates through UNREAL_SPEECH_WORDS_PER_MINUTE and UNREAL_SPEECH_VOICE_WORDS_PER_MINUTE.
+const SPEAKING_RATES = getSpeakingRates('UNREAL_SPEECH', {
+    wordsPerMinute: DEFAULT_WORDS_PER_MINUTE,
+    voiceWordsPerMinute: {
+        Scarlett: 155,
+        Dan: 145,
+        Liv: 160,
+        Will: 148,
+        Amy: 152,
+    },
+});
 
-                // Unreal Speech returns { OutputUri: "url", TimestampsUri: "url" }
-                const audioUrl = response.data.OutputUri;
-
-                // Download the audio file
-                const audioResponse = await axios.get(audioUrl, {
-                    responseType: 'arraybuffer',
-                });
-
-                const audioBuffer = Buffer.from(audioResponse.data);
-
-                // Estimate duration
-                const estimatedDuration = estimateDuration(text);
+export class UnrealSpeechProvider implements TTSProvider {
+    readonly name = 'Unreal Speech';
+    readonly voices = VOICES;
+    readonly voicePool = VOICE_POOL;
+    readonly wordsPerMinute = SPEAKING_RATES.wordsPerMinute;
+    readonly voiceWordsPerMinute = SPEAKING_RATES.voiceWordsPerMinute;
+
+    async synthesize(segment: DialogueSegment, voiceId: string, signal?: AbortSignal): Promise<SynthesizedAudio> {
+        const { text } = segment;
+
+        // Use Unreal Speech /speech endpoint for synchronous generation
+        const response = await axios.post(
+            `${UNREAL_SPEECH_API_URL}/speech`,
+            {
+                Text: text,
+                VoiceId: voiceId,
+                Bitrate: '192k',
+                Speed: '0', // Normal speed
+                Pitch: '1.0', // Normal pitch
+                TimestampType: 'word', // Get word-level timestamps
+            },
+            {
+                headers: {
+                    'Authorization': `Bearer ${UNREAL_SPEECH_API_KEY}`,
+                    'Content-Type': 'application/json',
+                },
+                responseType: 'json',
+                signal,
+            }
+        );
 
-                const startTime = cumulativeTime;
-                const endTime = cumulativeTime + estimatedDuration;
+        // Unreal Speech returns { OutputUri: "url", TimestampsUri: "url" }
+        const audioUrl = response.data.OutputUri;
 
-                audioSegments.push({
-                    speaker,
-                    text,
-                    audioBuffer,
-                    duration: estimatedDuration,
-                    startTime,
-                    endTime,
-                });
+        // Download the audio file
+        const audioResponse = await axios.get(audioUrl, {
+            responseType: 'arraybuffer',
+            signal,
+        });
 
-                cumulativeTime = endTime;
+        const audioBuffer = Buffer.from(audioResponse.data);
 
-                console.log(`  ✓ Generated ${estimatedDuration.toFixed(2)}s of audio`);
-            } catch (error) {
-                console.error(`Error generating audio for segment ${i + 1}:`, error);
-                throw new Error(`Failed to generate audio: ${error instanceof Error ? error.message : 'Unknown error'}`);
-            }
-        }
+        // Estimate duration at the voice's speaking rate
+        const duration = estimateDuration(text, getVoiceWordsPerMinute(this, voiceId));
 
-        console.log(`Total audio duration: ${cumulativeTime.toFixed(2)}s`);
-        return audioSegments;
+        return { audioBuffer, duration };
     }
 }
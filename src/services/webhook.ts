@@ -1,52 +1,117 @@
-import axios from 'axios';
+import { webhookDeliveries, type WebhookDestination } from './webhookDeliveries.js';
+import { webhookEndpoints } from './webhookEndpoints.js';
+import type { PodcastDuration, PodcastErrorCode } from '../types/index.js';
+import type { BatchItemResult, JobStage, JobStatus } from '../types/jobs.js';
 
+// Service-wide destination for every event except podcast.progress
 const WEBHOOK_URL = process.env.WEBHOOK_URL;
-const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET;
 
-export interface WebhookPayload {
-    event: 'podcast.completed' | 'podcast.failed';
-    jobId: string;
+export interface PodcastWebhookPayload {
+    event: 'podcast.completed' | 'podcast.failed' | 'podcast.cancelled' | 'job.cancelled';
+    jobId?: string; // Unset for synchronous generations, which have no job
     noteId: string;
     userId: string;
-    duration: 'short' | 'long';
+    duration: PodcastDuration;
+    targetMinutes: number;
 
-    // For completed podcasts
+    // Linked podcast record
     podcastId?: string;
+
+    // For completed podcasts
     audioUrl?: string;
     audioDuration?: number;
     transcript?: any[];
 
     // For failed podcasts
     error?: string;
+    errorCode?: PodcastErrorCode;
+    failedStage?: JobStage;
 
     timestamp: string;
 }
 
-export async function sendWebhook(payload: WebhookPayload): Promise<void> {
-    if (!WEBHOOK_URL) {
-        console.log('⚠️  No webhook URL configured, skipping webhook');
-        return;
+// Sent when an async job finishes a pipeline stage
+export interface ProgressWebhookPayload {
+    event: 'podcast.progress';
+    jobId: string;
+    noteId: string;
+    userId: string;
+    podcastId?: string;
+    stage: JobStage;
+    progress: number; // 0-100
+    timestamp: string;
+}
+
+// Sent once every item in a batch has reached a terminal state
+export interface BatchWebhookPayload {
+    event: 'batch.completed';
+    batchId: string;
+    total: number;
+    counts: Record<JobStatus, number>;
+    items: BatchItemResult[];
+    timestamp: string;
+}
+
+export type WebhookPayload = PodcastWebhookPayload | ProgressWebhookPayload | BatchWebhookPayload;
+
+// Who an event is for: endpoints registered by the API key, and the callbackUrl of the request
+export interface WebhookContext {
+    apiKeyId?: string;
+    callbackUrl?: string;
+}
+
+// Every URL an event goes to, one delivery per URL
+async function getDestinations(payload: WebhookPayload, context: WebhookContext): Promise<WebhookDestination[]> {
+    const { apiKeyId, callbackUrl } = context;
+    const destinations = new Map<string, WebhookDestination>();
+
+    if (WEBHOOK_URL && payload.event !== 'podcast.progress') {
+        destinations.set(WEBHOOK_URL, { url: WEBHOOK_URL, apiKeyId });
+    }
+
+    // A registered endpoint wins over the same URL given another way, so it gets its own secret
+    if (apiKeyId) {
+        for (const { endpointId, url } of await webhookEndpoints.getSubscribers(apiKeyId, payload.event)) {
+            destinations.set(url, { url, apiKeyId, endpointId });
+        }
+    }
+
+    if (callbackUrl && !destinations.has(callbackUrl)) {
+        destinations.set(callbackUrl, { url: callbackUrl, apiKeyId });
     }
 
+    return [...destinations.values()];
+}
+
+// Persist a delivery per destination and attempt each now; failed attempts are
+// retried in the background by the webhook dispatcher
+export async function sendWebhook(payload: WebhookPayload, context: WebhookContext = {}): Promise<void> {
     try {
-        console.log(`📤 Sending webhook to ${WEBHOOK_URL}`);
-
-        const response = await axios.post(WEBHOOK_URL, payload, {
-            headers: {
-                'Content-Type': 'application/json',
-                'X-Webhook-Secret': WEBHOOK_SECRET || '',
-                'User-Agent': 'PodcastMicroservice/1.0',
-            },
-            timeout: 10000, // 10 second timeout
-        });
-
-        if (response.status >= 200 && response.status < 300) {
-            console.log(`✅ Webhook delivered successfully (${response.status})`);
-        } else {
-            console.warn(`⚠️  Webhook returned status ${response.status}`);
+        const destinations = await getDestinations(payload, context);
+
+        if (destinations.length === 0) {
+            return;
         }
+
+        await Promise.all(destinations.map(destination =>
+            webhookDeliveries.enqueue(destination, payload).catch(error => {
+                console.error(`❌ Failed to queue webhook delivery to ${destination.url}:`, error instanceof Error ? error.message : 'Unknown error');
+            })
+        ));
     } catch (error) {
-        console.error('❌ Webhook delivery failed:', error instanceof Error ? error.message : 'Unknown error');
+        console.error('❌ Failed to send webhook:', error instanceof Error ? error.message : 'Unknown error');
         // Don't throw - webhook failure shouldn't break the job
     }
 }
+
+// A cancelled job is announced as podcast.cancelled, and as job.cancelled for
+// receivers subscribed under that earlier name
+export async function sendCancelledWebhooks(
+    payload: Omit<PodcastWebhookPayload, 'event'>,
+    context: WebhookContext = {}
+): Promise<void> {
+    await Promise.all([
+        sendWebhook({ ...payload, event: 'podcast.cancelled' }, context),
+        sendWebhook({ ...payload, event: 'job.cancelled' }, context),
+    ]);
+}
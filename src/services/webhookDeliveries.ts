@@ -0,0 +1,301 @@
+import axios from 'axios';
+import { randomUUID } from 'crypto';
+import { WebhookDelivery as WebhookDeliveryModel } from '../models/WebhookDelivery.js';
+import type { WebhookDelivery, WebhookDeliveryStatus } from '../types/webhooks.js';
+import { signWebhookPayload, SIGNATURE_HEADER } from './webhookSignature.js';
+import { webhookEndpoints } from './webhookEndpoints.js';
+import { assertSafeWebhookUrl, safeHttpAgent, safeHttpsAgent, UnsafeWebhookUrlError } from './webhookUrl.js';
+
+// Signing secrets for WEBHOOK_URL and callbackUrl deliveries, newest first. List several
+// while rotating so receivers can switch over before the old secret is removed.
+// WEBHOOK_SECRET is the single-secret form. Registered endpoints use their own secret.
+const WEBHOOK_SECRETS = (process.env.WEBHOOK_SECRETS || process.env.WEBHOOK_SECRET || '')
+    .split(',')
+    .map(secret => secret.trim())
+    .filter(Boolean);
+
+// Configured by the operator, so it may point at an internal service. Every other
+// URL comes from API callers and may only reach public addresses.
+const WEBHOOK_URL = process.env.WEBHOOK_URL;
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// Attempts before a delivery is dead-lettered. With the defaults, retries back off
+// 30s, 1m, 2m ... up to 1h between attempts, spanning about 3.5 hours.
+const WEBHOOK_MAX_ATTEMPTS = Math.max(1, parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '10'));
+const WEBHOOK_RETRY_BASE_DELAY_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || '30000');
+const WEBHOOK_RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// How often the dispatcher looks for due retries, and how many it sends per tick
+const DISPATCH_INTERVAL_MS = 5000;
+const DISPATCH_BATCH_SIZE = 20;
+
+// A delivery being attempted is hidden from other processes for this long
+const ATTEMPT_LEASE_MS = WEBHOOK_TIMEOUT_MS * 3;
+
+// Exclude internal fields from API responses
+const DELIVERY_PROJECTION = { _id: 0, __v: 0 };
+
+// Largest page returned by listDeliveries
+export const MAX_DELIVERY_PAGE_SIZE = 200;
+
+function getRetryDelay(attemptCount: number): number {
+    return Math.min(WEBHOOK_RETRY_BASE_DELAY_MS * 2 ** (attemptCount - 1), WEBHOOK_RETRY_MAX_DELAY_MS);
+}
+
+function getLeaseExpiry(): Date {
+    return new Date(Date.now() + ATTEMPT_LEASE_MS);
+}
+
+// Where a delivery goes, and who it belongs to
+export interface WebhookDestination {
+    url: string;
+    apiKeyId?: string;
+    endpointId?: string;
+}
+
+// Secrets to sign a delivery with (null when its endpoint was deleted)
+async function getSigningSecrets(delivery: WebhookDelivery): Promise<string[] | null> {
+    if (!delivery.endpointId) {
+        return WEBHOOK_SECRETS;
+    }
+
+    const secret = await webhookEndpoints.getSecret(delivery.endpointId);
+    return secret ? [secret] : null;
+}
+
+// Persisted webhook deliveries with exponential-backoff retries and dead-lettering
+class WebhookDeliveries {
+    // Persist a delivery and make the first attempt right away
+    async enqueue(destination: WebhookDestination, payload: { event: string }): Promise<WebhookDelivery> {
+        const delivery = await WebhookDeliveryModel.create({
+            deliveryId: randomUUID(),
+            event: payload.event,
+            ...destination,
+            payload,
+            status: 'pending',
+            // Leased to this process for the first attempt
+            nextAttemptAt: getLeaseExpiry(),
+        });
+
+        return this.attempt(delivery.toObject<WebhookDelivery>());
+    }
+
+    // Send one attempt and record its outcome
+    private async attempt(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+        const { deliveryId, url } = delivery;
+
+        const secrets = await getSigningSecrets(delivery);
+        if (!secrets) {
+            return this.deadLetter(delivery, 'Webhook endpoint was deleted');
+        }
+
+        // Checked again on every attempt, since DNS can change after the URL was accepted.
+        // A failed lookup is left to the request, which retries it.
+        const trusted = url === WEBHOOK_URL;
+        if (!trusted) {
+            try {
+                await assertSafeWebhookUrl(url);
+            } catch (error) {
+                if (error instanceof UnsafeWebhookUrlError) {
+                    return this.deadLetter(delivery, error.message);
+                }
+            }
+        }
+
+        // Sign the exact bytes that are sent, with a fresh timestamp per attempt
+        const body = JSON.stringify(delivery.payload);
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            'User-Agent': 'PodcastMicroservice/1.0',
+            // Same for every attempt so receivers can drop duplicates
+            'X-Webhook-Id': deliveryId,
+        };
+
+        if (secrets.length > 0) {
+            headers[SIGNATURE_HEADER] = signWebhookPayload(body, secrets);
+        } else {
+            console.warn('⚠️  No webhook secret configured, sending unsigned webhook');
+        }
+
+        console.log(`📤 Sending webhook ${delivery.event} to ${url} (attempt ${delivery.attemptCount + 1}/${WEBHOOK_MAX_ATTEMPTS})`);
+
+        const attemptedAt = new Date();
+        let statusCode: number | undefined;
+        let error: string | undefined;
+
+        try {
+            const response = await axios.post(url, body, {
+                headers,
+                timeout: WEBHOOK_TIMEOUT_MS,
+                validateStatus: () => true,
+                // A redirect could lead anywhere, so it counts as a failed attempt
+                maxRedirects: 0,
+                ...(!trusted && { httpAgent: safeHttpAgent, httpsAgent: safeHttpsAgent }),
+            });
+            statusCode = response.status;
+            if (statusCode < 200 || statusCode >= 300) {
+                error = `Receiver returned status ${statusCode}`;
+            }
+        } catch (requestError) {
+            error = requestError instanceof Error ? requestError.message : 'Unknown error';
+        }
+
+        const durationMs = Date.now() - attemptedAt.getTime();
+        const attemptCount = delivery.attemptCount + 1;
+        const delivered = error === undefined;
+        const dead = !delivered && attemptCount >= WEBHOOK_MAX_ATTEMPTS;
+
+        const status: WebhookDeliveryStatus = delivered ? 'delivered' : dead ? 'dead' : 'pending';
+        const updated = await WebhookDeliveryModel.findOneAndUpdate(
+            { deliveryId },
+            {
+                $set: {
+                    status,
+                    attemptCount,
+                    ...(delivered && { deliveredAt: new Date() }),
+                    ...(dead && { deadLetteredAt: new Date() }),
+                    ...(status === 'pending' && { nextAttemptAt: new Date(Date.now() + getRetryDelay(attemptCount)) }),
+                },
+                ...(status !== 'pending' && { $unset: { nextAttemptAt: '' } }),
+                $push: { attempts: { attemptedAt, statusCode, durationMs, error } },
+            },
+            { new: true, projection: DELIVERY_PROJECTION }
+        ).lean<WebhookDelivery>();
+
+        if (delivered) {
+            console.log(`✅ Webhook delivered successfully (${statusCode}, ${durationMs}ms)`);
+        } else if (dead) {
+            console.error(`💀 Webhook ${deliveryId} dead-lettered after ${attemptCount} attempts: ${error}`);
+        } else {
+            console.warn(`⚠️  Webhook ${deliveryId} failed (${error}), retrying at ${updated?.nextAttemptAt?.toISOString()}`);
+        }
+
+        return updated ?? { ...delivery, status, attemptCount };
+    }
+
+    // Give up on a delivery without attempting it
+    private async deadLetter(delivery: WebhookDelivery, reason: string): Promise<WebhookDelivery> {
+        console.error(`💀 Webhook ${delivery.deliveryId} dead-lettered: ${reason}`);
+
+        const updated = await WebhookDeliveryModel.findOneAndUpdate(
+            { deliveryId: delivery.deliveryId },
+            {
+                $set: { status: 'dead', deadLetteredAt: new Date() },
+                $unset: { nextAttemptAt: '' },
+                $push: { attempts: { attemptedAt: new Date(), durationMs: 0, error: reason } },
+            },
+            { new: true, projection: DELIVERY_PROJECTION }
+        ).lean<WebhookDelivery>();
+
+        return updated ?? { ...delivery, status: 'dead' };
+    }
+
+    // Retry every delivery whose next attempt is due
+    async processDueDeliveries(): Promise<number> {
+        let processed = 0;
+
+        while (processed < DISPATCH_BATCH_SIZE) {
+            // Claim by pushing nextAttemptAt forward, so other processes skip it
+            const delivery = await WebhookDeliveryModel.findOneAndUpdate(
+                { status: 'pending', nextAttemptAt: { $lte: new Date() } },
+                { $set: { nextAttemptAt: getLeaseExpiry() } },
+                { sort: { nextAttemptAt: 1 }, new: true, projection: DELIVERY_PROJECTION }
+            ).lean<WebhookDelivery>();
+
+            if (!delivery) {
+                break;
+            }
+
+            await this.attempt(delivery);
+            processed++;
+        }
+
+        return processed;
+    }
+
+    // List the API key's deliveries, newest first
+    async listDeliveries(
+        apiKeyId: string,
+        filter: { status?: WebhookDeliveryStatus; event?: string; endpointId?: string; limit?: number }
+    ): Promise<WebhookDelivery[]> {
+        const query: Record<string, unknown> = { apiKeyId };
+        if (filter.status) {
+            query.status = filter.status;
+        }
+        if (filter.event) {
+            query.event = filter.event;
+        }
+        if (filter.endpointId) {
+            query.endpointId = filter.endpointId;
+        }
+
+        return WebhookDeliveryModel.find(query, DELIVERY_PROJECTION)
+            .sort({ createdAt: -1 })
+            .limit(Math.min(filter.limit ?? 50, MAX_DELIVERY_PAGE_SIZE))
+            .lean<WebhookDelivery[]>();
+    }
+
+    // Get a delivery belonging to the API key
+    async getDelivery(deliveryId: string, apiKeyId: string): Promise<WebhookDelivery | null> {
+        return WebhookDeliveryModel.findOne({ deliveryId, apiKeyId }, DELIVERY_PROJECTION).lean<WebhookDelivery>();
+    }
+
+    // Send a delivery again now, whatever its status. It gets a fresh set of
+    // retries; earlier attempts stay in its log.
+    async redeliver(deliveryId: string, apiKeyId: string): Promise<WebhookDelivery | null> {
+        const delivery = await WebhookDeliveryModel.findOneAndUpdate(
+            { deliveryId, apiKeyId },
+            {
+                $set: { status: 'pending', attemptCount: 0, nextAttemptAt: getLeaseExpiry() },
+                $unset: { deadLetteredAt: '' },
+            },
+            { new: true, projection: DELIVERY_PROJECTION }
+        ).lean<WebhookDelivery>();
+
+        if (!delivery) {
+            return null;
+        }
+
+        console.log(`🔁 Redelivering webhook ${deliveryId}`);
+        return this.attempt(delivery);
+    }
+}
+
+// Singleton instance
+export const webhookDeliveries = new WebhookDeliveries();
+
+// Retry timer, cleared when the dispatcher stops
+let dispatchInterval: ReturnType<typeof setInterval> | undefined;
+
+// Start retrying failed deliveries in the background
+export function startWebhookDispatcher(): void {
+    let isDispatching = false;
+
+    dispatchInterval = setInterval(async () => {
+        // Avoid overlapping runs when receivers are slow
+        if (isDispatching) {
+            return;
+        }
+
+        isDispatching = true;
+        try {
+            await webhookDeliveries.processDueDeliveries();
+        } catch (error) {
+            console.error('Webhook dispatcher error:', error);
+        } finally {
+            isDispatching = false;
+        }
+    }, DISPATCH_INTERVAL_MS);
+
+    console.log(`📮 Webhook dispatcher started (max ${WEBHOOK_MAX_ATTEMPTS} attempts per delivery)`);
+}
+
+// Stop retrying; pending deliveries are picked up by the next process that starts the dispatcher
+export function stopWebhookDispatcher(): void {
+    if (dispatchInterval) {
+        clearInterval(dispatchInterval);
+        dispatchInterval = undefined;
+        console.log('🛑 Webhook dispatcher stopped');
+    }
+}
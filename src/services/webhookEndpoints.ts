@@ -0,0 +1,114 @@
+import { randomBytes } from 'crypto';
+import { WebhookEndpoint } from '../models/WebhookEndpoint.js';
+import type { WebhookEndpoint as WebhookEndpointRecord, WebhookEvent } from '../types/webhooks.js';
+
+// Every event an endpoint can subscribe to
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+    'podcast.completed',
+    'podcast.failed',
+    'podcast.progress',
+    'podcast.cancelled',
+    'job.cancelled',
+    'batch.completed',
+];
+
+// Exclude internal fields (and the secret, which is selected explicitly) from API responses
+const ENDPOINT_PROJECTION = { _id: 0, __v: 0 };
+
+// Enabled endpoint subscribed to an event, with the secret it is signed with
+export interface WebhookSubscriber {
+    endpointId: string;
+    url: string;
+    secret: string;
+}
+
+function generateSecret(): string {
+    return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+// Webhook endpoints registered per API key, each with its own URL, secret and events
+class WebhookEndpoints {
+    // Register an endpoint. The secret is returned here only; store it to verify deliveries.
+    async createEndpoint(
+        apiKeyId: string,
+        request: { url: string; events: WebhookEvent[]; description?: string }
+    ): Promise<WebhookEndpointRecord & { secret: string }> {
+        const endpointId = `whep_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        const secret = generateSecret();
+
+        const endpoint = await WebhookEndpoint.create({
+            endpointId,
+            apiKeyId,
+            secret,
+            enabled: true,
+            ...request,
+        });
+
+        console.log(`🔔 Registered webhook endpoint ${endpointId} for ${request.events.join(', ')}`);
+
+        const { _id, __v, ...record } = endpoint.toObject();
+        return { ...record, secret };
+    }
+
+    // List the API key's endpoints, newest first
+    async listEndpoints(apiKeyId: string): Promise<WebhookEndpointRecord[]> {
+        return WebhookEndpoint.find({ apiKeyId }, ENDPOINT_PROJECTION)
+            .sort({ createdAt: -1 })
+            .lean<WebhookEndpointRecord[]>();
+    }
+
+    // Get an endpoint owned by the API key
+    async getEndpoint(endpointId: string, apiKeyId: string): Promise<WebhookEndpointRecord | null> {
+        return WebhookEndpoint.findOne({ endpointId, apiKeyId }, ENDPOINT_PROJECTION).lean<WebhookEndpointRecord>();
+    }
+
+    // Change an endpoint's URL, events, description or enabled flag
+    async updateEndpoint(
+        endpointId: string,
+        apiKeyId: string,
+        updates: Partial<Pick<WebhookEndpointRecord, 'url' | 'events' | 'description' | 'enabled'>>
+    ): Promise<WebhookEndpointRecord | null> {
+        return WebhookEndpoint.findOneAndUpdate(
+            { endpointId, apiKeyId },
+            { $set: updates },
+            { new: true, projection: ENDPOINT_PROJECTION }
+        ).lean<WebhookEndpointRecord>();
+    }
+
+    // Replace an endpoint's signing secret; the old one stops working immediately
+    async rotateSecret(endpointId: string, apiKeyId: string): Promise<string | null> {
+        const secret = generateSecret();
+        const result = await WebhookEndpoint.updateOne({ endpointId, apiKeyId }, { $set: { secret } });
+
+        if (result.matchedCount === 0) {
+            return null;
+        }
+
+        console.log(`🔑 Rotated secret for webhook endpoint ${endpointId}`);
+        return secret;
+    }
+
+    // Delete an endpoint; its pending deliveries are dropped
+    async deleteEndpoint(endpointId: string, apiKeyId: string): Promise<boolean> {
+        const result = await WebhookEndpoint.deleteOne({ endpointId, apiKeyId });
+        return result.deletedCount > 0;
+    }
+
+    // Enabled endpoints of the API key that subscribe to an event
+    async getSubscribers(apiKeyId: string, event: WebhookEvent): Promise<WebhookSubscriber[]> {
+        return WebhookEndpoint.find({ apiKeyId, events: event, enabled: true })
+            .select({ _id: 0, endpointId: 1, url: 1, secret: 1 })
+            .lean<WebhookSubscriber[]>();
+    }
+
+    // Current signing secret of an endpoint (null once it is deleted)
+    async getSecret(endpointId: string): Promise<string | null> {
+        const endpoint = await WebhookEndpoint.findOne({ endpointId })
+            .select({ _id: 0, secret: 1 })
+            .lean<{ secret: string }>();
+        return endpoint?.secret ?? null;
+    }
+}
+
+// Singleton instance
+export const webhookEndpoints = new WebhookEndpoints();
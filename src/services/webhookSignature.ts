@@ -0,0 +1,75 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Webhook signatures. Only depends on node:crypto so receiving apps can copy this file.
+//
+// Header format:  X-Webhook-Signature: t=<unix seconds>,v1=<hex>[,v1=<hex>...]
+// Each v1 value is HMAC-SHA256(secret, `${t}.${rawBody}`), one per active secret,
+// so receivers keep verifying while secrets are rotated.
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const SIGNATURE_VERSION = 'v1';
+
+// Deliveries signed longer ago than this are rejected as replays
+export const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+export type WebhookVerificationResult =
+    | { valid: true; timestamp: number }
+    | { valid: false; reason: 'missing_header' | 'malformed_header' | 'stale_timestamp' | 'invalid_signature' };
+
+function computeSignature(secret: string, timestamp: number, rawBody: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+}
+
+// Build the signature header for a body, signed with every active secret
+export function signWebhookPayload(rawBody: string, secrets: string[], timestamp = Math.floor(Date.now() / 1000)): string {
+    const signatures = secrets.map(secret => `${SIGNATURE_VERSION}=${computeSignature(secret, timestamp, rawBody)}`);
+    return [`t=${timestamp}`, ...signatures].join(',');
+}
+
+// Verify a delivery against the raw (unparsed) request body. Pass every secret
+// that should currently be accepted; any match is enough.
+export function verifyWebhookSignature(
+    rawBody: string,
+    header: string | null | undefined,
+    secrets: string | string[],
+    options: { toleranceSeconds?: number; now?: number } = {}
+): WebhookVerificationResult {
+    if (!header) {
+        return { valid: false, reason: 'missing_header' };
+    }
+
+    let timestamp: number | undefined;
+    const signatures: string[] = [];
+
+    for (const part of header.split(',')) {
+        const [key, value] = part.trim().split('=', 2);
+        if (key === 't' && value) {
+            timestamp = Number(value);
+        } else if (key === SIGNATURE_VERSION && value) {
+            signatures.push(value);
+        }
+    }
+
+    if (timestamp === undefined || !Number.isInteger(timestamp) || signatures.length === 0) {
+        return { valid: false, reason: 'malformed_header' };
+    }
+
+    const now = options.now ?? Math.floor(Date.now() / 1000);
+    const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+    if (Math.abs(now - timestamp) > tolerance) {
+        return { valid: false, reason: 'stale_timestamp' };
+    }
+
+    for (const secret of Array.isArray(secrets) ? secrets : [secrets]) {
+        const expected = Buffer.from(computeSignature(secret, timestamp, rawBody), 'hex');
+
+        for (const signature of signatures) {
+            const received = Buffer.from(signature, 'hex');
+            if (received.length === expected.length && timingSafeEqual(received, expected)) {
+                return { valid: true, timestamp };
+            }
+        }
+    }
+
+    return { valid: false, reason: 'invalid_signature' };
+}
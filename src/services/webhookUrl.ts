@@ -0,0 +1,176 @@
+import { lookup } from 'dns/promises';
+import { lookup as lookupCallback, type LookupAddress, type LookupOptions } from 'dns';
+import http from 'http';
+import https from 'https';
+import { isIP, type LookupFunction } from 'net';
+import { z } from 'zod';
+
+// Plain http is only accepted for local development
+const ALLOW_HTTP = (process.env.NODE_ENV || 'development') === 'development';
+
+// IPv4 ranges webhooks must never reach: this host, private networks, link-local
+// (including cloud metadata at 169.254.169.254), shared and reserved space
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4],
+];
+
+// Thrown for a webhook URL that is not https, or resolves to a non-public address
+export class UnsafeWebhookUrlError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UnsafeWebhookUrlError';
+    }
+}
+
+function ipv4ToNumber(address: string): number {
+    return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function isBlockedIpv4(address: string): boolean {
+    const value = ipv4ToNumber(address);
+    return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+        const size = 2 ** (32 - bits);
+        return Math.floor(value / size) === Math.floor(ipv4ToNumber(base) / size);
+    });
+}
+
+// The 8 16-bit groups of an IPv6 address, with any embedded IPv4 tail expanded
+function getIpv6Groups(address: string): number[] {
+    let normalized = address.toLowerCase().split('%')[0]!;
+
+    const ipv4Tail = normalized.match(/(\d+\.\d+\.\d+\.\d+)$/)?.[1];
+    if (ipv4Tail) {
+        const value = ipv4ToNumber(ipv4Tail);
+        normalized = normalized.slice(0, -ipv4Tail.length) +
+            `${Math.floor(value / 65536).toString(16)}:${(value % 65536).toString(16)}`;
+    }
+
+    const [head, tail] = normalized.split('::') as [string, string | undefined];
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const missing = tail === undefined ? 0 : 8 - headGroups.length - tailGroups.length;
+
+    return [...headGroups, ...Array<string>(missing).fill('0'), ...tailGroups].map(group => parseInt(group, 16));
+}
+
+// Dotted IPv4 address from two 16-bit IPv6 groups
+function groupsToIpv4(high: number, low: number): string {
+    return `${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`;
+}
+
+function isBlockedIpv6(address: string): boolean {
+    const groups = getIpv6Groups(address);
+    const first = groups[0]!;
+
+    // ::ffff:a.b.c.d and ::a.b.c.d carry an IPv4 address
+    if (groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0xffff || groups[5] === 0)) {
+        const high = groups[6]!;
+        const low = groups[7]!;
+        // :: and ::1
+        if (groups[5] === 0 && high === 0 && low <= 1) {
+            return true;
+        }
+        return isBlockedIpv4(groupsToIpv4(high, low));
+    }
+
+    // NAT64 64:ff9b::a.b.c.d is translated to the IPv4 address in its last 32 bits
+    if (first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+        return isBlockedIpv4(groupsToIpv4(groups[6]!, groups[7]!));
+    }
+
+    // 6to4 2002:AABB:CCDD::/48 tunnels to the IPv4 address AA.BB.CC.DD
+    if (first === 0x2002) {
+        return isBlockedIpv4(groupsToIpv4(groups[1]!, groups[2]!));
+    }
+
+    return (first & 0xfe00) === 0xfc00 // unique local fc00::/7
+        || (first & 0xffc0) === 0xfe80 // link-local fe80::/10
+        || (first & 0xff00) === 0xff00; // multicast ff00::/8
+}
+
+// Whether an IP address is loopback, private, link-local or otherwise not public
+export function isBlockedAddress(address: string): boolean {
+    const family = isIP(address);
+    if (family === 4) {
+        return isBlockedIpv4(address);
+    }
+    if (family === 6) {
+        return isBlockedIpv6(address);
+    }
+    return true;
+}
+
+// Throw UnsafeWebhookUrlError unless the URL is https (or http in development) and
+// its host resolves only to public addresses. DNS failures are thrown as they are.
+export async function assertSafeWebhookUrl(url: string): Promise<void> {
+    const { protocol, hostname } = new URL(url);
+
+    if (protocol !== 'https:' && !(protocol === 'http:' && ALLOW_HTTP)) {
+        throw new UnsafeWebhookUrlError('Webhook URLs must use https');
+    }
+
+    // IPv6 literals keep their brackets in URL.hostname
+    const host = hostname.replace(/^\[(.*)\]$/, '$1');
+    const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(({ address }) => address);
+
+    const blocked = addresses.find(isBlockedAddress);
+    if (blocked) {
+        throw new UnsafeWebhookUrlError(`Webhook host ${host} resolves to a non-public address (${blocked})`);
+    }
+}
+
+// DNS lookup that refuses non-public addresses, so a host can't be re-pointed at an
+// internal address between validation and delivery
+const safeLookup = ((hostname: string, options: LookupOptions, callback: (...args: any[]) => void) => {
+    lookupCallback(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+        if (error) {
+            return callback(error);
+        }
+
+        if (addresses.length === 0) {
+            return callback(Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), {
+                code: 'ENOTFOUND',
+                hostname,
+            }));
+        }
+
+        const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+        if (blocked) {
+            return callback(new UnsafeWebhookUrlError(`Webhook host ${hostname} resolves to a non-public address (${blocked.address})`));
+        }
+
+        if (options.all) {
+            return callback(null, addresses);
+        }
+        callback(null, addresses[0]!.address, addresses[0]!.family);
+    });
+}) as LookupFunction;
+
+// Agents for webhook requests that only connect to public addresses
+export const safeHttpAgent = new http.Agent({ lookup: safeLookup });
+export const safeHttpsAgent = new https.Agent({ lookup: safeLookup });
+
+// Request field for a URL that will receive webhooks; parse with safeParseAsync
+export function webhookUrlSchema(field: string) {
+    return z.url({ protocol: /^https?$/, message: `${field} must be an http(s) URL` })
+        .superRefine(async (url, ctx) => {
+            try {
+                await assertSafeWebhookUrl(url);
+            } catch (error) {
+                ctx.addIssue({
+                    code: 'custom',
+                    message: error instanceof UnsafeWebhookUrlError ? error.message : `${field} host could not be resolved`,
+                });
+            }
+        });
+}
@@ -0,0 +1,33 @@
+import { Worker } from '../models/Worker.js';
+import type { WorkerInfo } from '../types/jobs.js';
+
+// Workers are listed as live while their last heartbeat is this recent
+export const WORKER_STALE_AFTER_MS = parseInt(process.env.WORKER_STALE_AFTER_MS || '60000');
+
+// Heartbeat records of worker processes, so API instances can report on workers they don't run
+class WorkerRegistry {
+    // Record a heartbeat for a worker
+    async report(worker: Omit<WorkerInfo, 'lastHeartbeatAt'>): Promise<void> {
+        await Worker.updateOne(
+            { workerId: worker.workerId },
+            { $set: { ...worker, lastHeartbeatAt: new Date() } },
+            { upsert: true }
+        );
+    }
+
+    // Workers that have heartbeated recently
+    async getLiveWorkers(): Promise<WorkerInfo[]> {
+        return Worker.find(
+            { lastHeartbeatAt: { $gte: new Date(Date.now() - WORKER_STALE_AFTER_MS) } },
+            { _id: 0, __v: 0 }
+        ).sort({ startedAt: 1 }).lean<WorkerInfo[]>();
+    }
+
+    // Remove a worker that shut down cleanly
+    async unregister(workerId: string): Promise<void> {
+        await Worker.deleteOne({ workerId });
+    }
+}
+
+// Singleton instance
+export const workerRegistry = new WorkerRegistry();
@@ -1,16 +1,71 @@
-// Podcast duration types
-export type PodcastDuration = 'short' | 'long';
+import type { JobPriority } from './jobs.js';
+
+// Podcast duration types: the short and long presets, or any length requested in minutes
+export type DurationPreset = 'short' | 'long';
+export type PodcastDuration = DurationPreset | 'custom';
+
+// Length a podcast is written for
+export interface PodcastLength {
+    duration: PodcastDuration;
+    targetMinutes: number;
+}
+
+// Podcast record lifecycle; async podcasts are created 'queued' together with their job
+export type PodcastStatus = 'queued' | 'generating' | 'completed' | 'failed' | 'cancelled';
+
+// Machine-readable reason stored on failed podcasts and jobs
+export type PodcastErrorCode =
+    | 'script_generation_failed'
+    | 'audio_generation_failed'
+    | 'audio_combine_failed'
+    | 'upload_failed'
+    | 'worker_shutdown'
+    | 'internal_error';
+
+// Overall register of the conversation
+export type PodcastTone = 'casual' | 'academic' | 'energetic';
+
+// Structure of an episode; 'dialogue' is the default host and guest Q&A
+export type PodcastFormat = 'dialogue' | 'narration' | 'interview' | 'debate' | 'lecture';
+
+// Who a speaker is; every field is optional and only shapes the script
+export interface SpeakerPersona {
+    name?: string; // Display name, used when the speakers address each other
+    role?: string; // e.g. "curious product manager", "senior database engineer"
+    style?: string; // How they speak, e.g. "dry humour, short sentences"
+}
+
+// A speaker of a custom roster. id is what scripts and transcripts refer to it by.
+export interface PodcastSpeaker extends SpeakerPersona {
+    id: string;
+    voice?: string; // TTS provider voice ID; one is assigned if unset
+}
+
+// Options that change how a script is written, stored with the podcast so it can be regenerated alike
+export interface PodcastStyle {
+    format?: PodcastFormat;
+    // Replaces the default host and guest (personas only apply to those two)
+    speakers?: PodcastSpeaker[];
+    personas?: {
+        host?: SpeakerPersona;
+        guest?: SpeakerPersona;
+    };
+    tone?: PodcastTone;
+    audience?: string; // Who the episode is for, e.g. "high school students"
+}
 
 // API Request/Response types
 export interface GeneratePodcastRequest {
     noteId: string;
     noteContent: string;
     userId: string;
-    duration: PodcastDuration;
+    duration?: DurationPreset;
+    targetMinutes?: number; // Instead of duration
 }
 
+// Speakers are referred to by id: 'host' and 'guest', or the ids of the request's roster
 export interface TranscriptSegment {
-    speaker: 'host' | 'guest';
+    speaker: string;
     text: string;
     startTime: number;
     endTime: number;
@@ -25,12 +80,12 @@ export interface GeneratePodcastResponse {
 
 // Internal service types
 export interface DialogueSegment {
-    speaker: 'host' | 'guest';
+    speaker: string;
     text: string;
 }
 
 export interface AudioSegment {
-    speaker: 'host' | 'guest';
+    speaker: string;
     text: string;
     audioBuffer: Buffer;
     duration: number;
@@ -39,12 +94,134 @@ export interface AudioSegment {
 }
 
 // Configuration types
-export interface VoiceConfig {
-    host: string;
-    guest: string;
-}
+
+// TTS voice ID per speaker id
+export type VoiceConfig = Record<string, string>;
 
 export interface DurationConfig {
     targetWords: number;
     description: string;
 }
+
+// API plan tiers (see PRICING.md)
+export type PlanName = 'hacker' | 'indie' | 'startup' | 'scale';
+
+export interface PlanConfig {
+    name: PlanName;
+    maxConcurrentJobs: number;
+    priority: JobPriority; // Highest queue lane the plan may use
+    monthlyCredits: number; // Generation credits included each calendar month (UTC)
+    allowOverage: boolean; // Keep generating past the allowance, billed at pay-as-you-go rates
+    rateLimits: Record<RateLimitBucket, RateLimitConfig>; // Requests per API key
+    maxTargetMinutes: number; // Longest podcast that may be requested
+}
+
+// Request traffic is rate limited in two buckets: generation requests and everything else
+export type RateLimitBucket = 'generate' | 'read';
+
+// Token bucket of `limit` requests that refills completely over `windowSeconds`
+export interface RateLimitConfig {
+    limit: number;
+    windowSeconds: number;
+}
+
+// Which parts of the service a process runs: the HTTP API, the job worker, or both
+export type ServiceRole = 'api' | 'worker' | 'all';
+
+// What an API key may do; 'admin' also grants every other scope
+export type ApiKeyScope = 'podcasts:read' | 'podcasts:write' | 'admin';
+
+// A stored API key (the key itself is only kept as a hash)
+export interface ApiKeyRecord {
+    keyId: string; // Stable identifier; jobs, schedules and webhooks are owned by it
+    tenantId: string; // Customer or app the key belongs to
+    name: string;
+    prefix: string; // First characters of the key, to recognise it in listings
+    plan: PlanName;
+    scopes: ApiKeyScope[];
+    expiresAt?: Date;
+    lastUsedAt?: Date;
+    revokedAt?: Date;
+    // Until this passes, the key replaced by the last rotation still works
+    previousKeyExpiresAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// API key creation request
+export interface CreateApiKeyRequest {
+    tenantId: string;
+    name: string;
+    plan: PlanName;
+    scopes: ApiKeyScope[];
+    expiresAt?: Date;
+}
+
+// Outcome of checking a presented API key
+export type ApiKeyAuthResult =
+    | { valid: true; apiKey: ApiKeyRecord }
+    | { valid: false; reason: 'unknown' | 'revoked' | 'expired' };
+
+// Generation credits: debited when a generation is accepted, refunded if it fails or is cancelled
+export type CreditEntryType = 'debit' | 'refund';
+
+export interface CreditLedgerEntry {
+    entryId: string;
+    tenantId: string;
+    apiKeyId?: string;
+    type: CreditEntryType;
+    credits: number; // Always positive; refunds give credits back
+    duration: PodcastDuration;
+    targetMinutes?: number; // Unset on entries created before custom lengths
+    period: string; // Billing month, YYYY-MM (UTC)
+    overageCredits?: number; // Part of a debit beyond the plan's allowance
+    noteId: string;
+    jobId?: string;
+    refundOf?: string; // Debit entry a refund reverses
+    reason?: string;
+    createdAt: Date;
+}
+
+// A tenant's credits for one billing period
+export interface CreditBalance {
+    period: string;
+    plan: PlanName;
+    allowance: number;
+    used: number;
+    remaining: number; // Never negative; overage is reported separately
+    overageCredits: number;
+    allowOverage: boolean;
+    resetsAt: Date;
+}
+
+export interface DurationUsage {
+    generations: number; // Debits, including ones later refunded
+    refunded: number;
+    credits: number; // Net credits charged
+}
+
+// GET /api/usage response body
+export interface UsageSummary extends CreditBalance {
+    totals: {
+        generations: number;
+        refunded: number;
+        debitedCredits: number;
+        refundedCredits: number;
+    };
+    byDuration: Record<PodcastDuration, DurationUsage>;
+}
+
+// External AI services a generation depends on
+export type ProviderKind = 'llm' | 'tts';
+
+// Call and error counts of one provider over a time window
+export interface ProviderStats {
+    kind: ProviderKind;
+    provider: string;
+    calls: number;
+    errors: number;
+    errorRate: number; // 0-1
+    avgLatencyMs: number;
+    lastError?: string;
+    lastErrorAt?: Date;
+}
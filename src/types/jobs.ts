@@ -1,5 +1,51 @@
+import type { DialogueSegment, PlanName, PodcastDuration, PodcastErrorCode, PodcastStyle } from './index.js';
+
 // Job status types
-export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+// Job priority lanes (higher lanes are dispatched first)
+export type JobPriority = 'low' | 'normal' | 'high';
+
+// Events streamed to clients while a job runs
+export type JobEventType = 'queued' | 'progress' | 'stage' | 'segment' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobEventRecord {
+    seq: number;
+    type: JobEventType;
+    data: Record<string, unknown>;
+    createdAt: Date;
+}
+
+// Pipeline stages, in order
+export type JobStage = 'script' | 'audio' | 'combine' | 'upload';
+
+// Synthesized segment whose audio is stored as a checkpoint object
+export interface CheckpointSegment {
+    speaker: string;
+    text: string;
+    duration: number;
+    startTime: number;
+    endTime: number;
+    audioKey: string;
+}
+
+// Output of each completed stage, so failed jobs resume instead of restarting
+export interface JobCheckpoint {
+    dialogue?: DialogueSegment[]; // script
+    segments?: CheckpointSegment[]; // audio (may be partial)
+    combinedAudioKey?: string; // combine
+    totalDuration?: number; // combine
+    audioUrl?: string; // upload
+}
+
+// When a pipeline stage last ran for a job, and how it ended
+export interface JobStageTiming {
+    startedAt: Date;
+    finishedAt: Date;
+    durationMs: number;
+    attempts: number;
+    status: 'completed' | 'failed';
+}
 
 // Job data structure
 export interface PodcastJob {
@@ -12,16 +58,61 @@ export interface PodcastJob {
     noteId: string;
     noteContent: string;
     userId: string;
-    duration: 'short' | 'long';
+    duration: PodcastDuration;
+    targetMinutes?: number; // Unset on records created before custom lengths
+    style?: PodcastStyle;
 
-    // Result data (when completed)
+    // Caller data (used to enforce per-key concurrency; tenantId limits who can read the job)
+    apiKeyId?: string;
+    tenantId?: string;
+    concurrencyLimit?: number;
+
+    // Plan the job is charged under, and the credit debit refunded if it fails or is cancelled
+    plan?: PlanName;
+    creditEntryId?: string;
+
+    // Scheduling data (dispatchAt is the aged sort key, see jobQueue)
+    priority?: JobPriority;
+    dispatchAt?: Date;
+
+    // Position among the tenant's queued jobs (only set on status responses for queued jobs)
+    queuePosition?: number;
+
+    // Podcast record created with the job (status follows the job)
     podcastId?: string;
+
+    // Also receives this job's webhooks, in addition to the API key's endpoints
+    callbackUrl?: string;
+
+    // Result data (when completed)
     audioUrl?: string;
     audioDuration?: number;
     transcript?: any[];
 
     // Error data (when failed)
     error?: string;
+    errorCode?: PodcastErrorCode;
+    failedStage?: JobStage;
+
+    // Stage outputs saved so far
+    checkpoint?: JobCheckpoint;
+
+    // Timing of each stage's last run (stages restored from a checkpoint keep their earlier timing)
+    stageTimings?: Partial<Record<JobStage, JobStageTiming>>;
+
+    // Batch the job was created in
+    batchId?: string;
+
+    // Schedule that enqueued the job, and the run time it was enqueued for
+    scheduleId?: string;
+    scheduledFor?: Date;
+
+    // Worker that claimed the job, and when it last reported the job as running
+    workerId?: string;
+    heartbeatAt?: Date;
+
+    // Set when cancellation was requested while the job was processing
+    cancelRequestedAt?: Date;
 
     // Timestamps
     createdAt: Date;
@@ -34,7 +125,130 @@ export interface CreateJobRequest {
     noteId: string;
     noteContent: string;
     userId: string;
-    duration: 'short' | 'long';
+    duration: PodcastDuration;
+    targetMinutes: number;
+    style?: PodcastStyle;
+    apiKeyId?: string;
+    tenantId: string;
+    plan: PlanName;
+    concurrencyLimit?: number;
+    priority?: JobPriority;
+    callbackUrl?: string;
+    batchId?: string;
+    scheduleId?: string;
+    scheduledFor?: Date;
+}
+
+// Result of a cancellation request
+export interface CancelJobResult {
+    job: PodcastJob;
+    // cancelled: was queued and is now cancelled; cancelling: its worker will abort it;
+    // finished: already in a terminal state
+    outcome: 'cancelled' | 'cancelling' | 'finished';
+}
+
+// Batch status: 'creating' while its jobs are being enqueued
+export type BatchStatus = 'creating' | 'processing' | 'completed';
+
+// One note in a batch
+export interface BatchItem {
+    index: number;
+    noteId: string;
+    userId: string;
+    jobId?: string;
+    reusedPodcastId?: string;
+    // Set for items whose job could not be created
+    error?: string;
+}
+
+// Per-item status and results in a batch status response
+export interface BatchItemResult extends BatchItem {
+    status: JobStatus;
+    progress: number;
+    podcastId?: string;
+    audioUrl?: string;
+    audioDuration?: number;
+    error?: string;
+}
+
+// Aggregate batch status
+export interface BatchSummary {
+    batchId: string;
+    status: BatchStatus;
+    total: number;
+    counts: Record<JobStatus, number>;
+    items: BatchItemResult[];
+    createdAt: Date;
+    completedAt?: Date;
+}
+
+// Schedule status: one-off schedules become 'completed' after their run
+export type ScheduleStatus = 'active' | 'paused' | 'completed';
+
+// A one-off (runAt) or recurring (cron) generation schedule
+export interface PodcastSchedule {
+    scheduleId: string;
+    // Key the runs are made for (the creating key, or the one that last resumed it)
+    apiKeyId: string;
+    tenantId: string;
+    // Plan of that key when last checked; each run uses the key's current plan
+    plan: PlanName;
+    status: ScheduleStatus;
+    // Why the scheduler paused it, e.g. its API key was revoked
+    pausedReason?: string;
+
+    // Generation request enqueued on every run
+    noteId: string;
+    noteContent: string;
+    userId: string;
+    duration: PodcastDuration;
+    targetMinutes?: number; // Unset on records created before custom lengths
+    style?: PodcastStyle;
+    priority?: JobPriority;
+    callbackUrl?: string;
+
+    // Exactly one of runAt or cron is set; cron runs in timezone
+    runAt?: Date;
+    cron?: string;
+    timezone: string;
+
+    // Next time the schedule is due (unset once it has no more runs)
+    nextRunAt?: Date;
+    lastRunAt?: Date;
+    lastJobId?: string;
+    runCount: number;
+
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Schedule creation request
+export interface CreateScheduleRequest {
+    apiKeyId: string;
+    tenantId: string;
+    plan: PlanName;
+    noteId: string;
+    noteContent: string;
+    userId: string;
+    duration: PodcastDuration;
+    targetMinutes: number;
+    style?: PodcastStyle;
+    priority?: JobPriority;
+    callbackUrl?: string;
+    runAt?: Date;
+    cron?: string;
+    timezone?: string;
+}
+
+// A worker process as reported by its heartbeat
+export interface WorkerInfo {
+    workerId: string;
+    hostname: string;
+    pid: number;
+    concurrency: number;
+    activeJobIds: string[];
+    startedAt: Date;
+    lastHeartbeatAt: Date;
 }
 
 // Job status response
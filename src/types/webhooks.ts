@@ -0,0 +1,51 @@
+// Events an endpoint can subscribe to
+export type WebhookEvent = 'podcast.completed' | 'podcast.failed' | 'podcast.progress' | 'podcast.cancelled' | 'job.cancelled' | 'batch.completed';
+
+// Delivery state: 'dead' once every retry has failed (redeliver to try again)
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+// One HTTP attempt to deliver a webhook
+export interface WebhookDeliveryAttempt {
+    attemptedAt: Date;
+    statusCode?: number; // Unset when no response was received
+    durationMs: number;
+    error?: string;
+}
+
+// A persisted webhook delivery and its attempt log
+export interface WebhookDelivery {
+    deliveryId: string; // Sent as X-Webhook-Id; the same across retries
+    event: string;
+    url: string;
+
+    // API key whose job or batch caused the delivery
+    apiKeyId?: string;
+    // Registered endpoint delivered to (signed with its secret); unset for
+    // WEBHOOK_URL and per-request callbackUrl deliveries
+    endpointId?: string;
+
+    payload: Record<string, unknown>;
+    status: WebhookDeliveryStatus;
+
+    // Attempts since the delivery was created or last redelivered; drives the backoff
+    attemptCount: number;
+    attempts: WebhookDeliveryAttempt[];
+    nextAttemptAt?: Date;
+
+    deliveredAt?: Date;
+    deadLetteredAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// A webhook endpoint registered by an API key
+export interface WebhookEndpoint {
+    endpointId: string;
+    apiKeyId: string;
+    url: string;
+    events: WebhookEvent[];
+    description?: string;
+    enabled: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
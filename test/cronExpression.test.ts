@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'bun:test';
+import { CronParseError, getNextRun, isValidTimeZone, parseCron } from '../src/services/cronExpression.js';
+
+function nextRun(expression: string, after: string, timeZone = 'UTC'): string | undefined {
+    return getNextRun(parseCron(expression), new Date(after), timeZone)?.toISOString();
+}
+
+describe('parseCron', () => {
+    test('expands steps, ranges and lists', () => {
+        const cron = parseCron('*/15 0-2 1,15 * *');
+        expect(cron.minutes).toEqual([0, 15, 30, 45]);
+        expect(cron.hours).toEqual([0, 1, 2]);
+        expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    });
+
+    test('treats 7 as Sunday', () => {
+        expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    });
+
+    test('counts day fields starting with * as unrestricted', () => {
+        const cron = parseCron('0 0 */2 * 1-5');
+        expect(cron.daysOfMonthRestricted).toBe(false);
+        expect(cron.daysOfWeekRestricted).toBe(true);
+    });
+
+    test.each(['* * * *', '60 * * * *', '*/0 * * * *', '0 0 0 * *', '5-1 * * * *', 'a * * * *'])('rejects "%s"', expression => {
+        expect(() => parseCron(expression)).toThrow(CronParseError);
+    });
+});
+
+describe('getNextRun', () => {
+    test('returns the first run strictly after the given time', () => {
+        expect(nextRun('30 10 * * *', '2026-01-15T10:30:00Z')).toBe('2026-01-16T10:30:00.000Z');
+        expect(nextRun('30 10 * * *', '2026-01-15T10:29:00Z')).toBe('2026-01-15T10:30:00.000Z');
+    });
+
+    test('evaluates the expression in the time zone', () => {
+        // 09:00 in New York is 14:00 UTC in winter and 13:00 UTC in summer
+        expect(nextRun('0 9 * * *', '2026-01-15T15:00:00Z', 'America/New_York')).toBe('2026-01-16T14:00:00.000Z');
+        expect(nextRun('0 9 * * *', '2026-07-15T14:00:00Z', 'America/New_York')).toBe('2026-07-16T13:00:00.000Z');
+    });
+
+    test('matches either day field when both are restricted', () => {
+        // The 13th or any Friday; 2026-01-02 is a Friday
+        expect(nextRun('0 0 13 * 5', '2026-01-01T00:00:00Z')).toBe('2026-01-02T00:00:00.000Z');
+    });
+
+    test('matches both day fields when day-of-month is a * step', () => {
+        // Odd days that are also Mondays: 2026-01-01 is odd but a Thursday, 2026-01-05 is an odd Monday
+        expect(nextRun('0 0 */2 * 1', '2025-12-31T12:00:00Z')).toBe('2026-01-05T00:00:00.000Z');
+    });
+
+    test('returns null for an expression that never matches', () => {
+        expect(nextRun('0 0 30 2 *', '2026-01-01T00:00:00Z')).toBeUndefined();
+    });
+});
+
+describe('isValidTimeZone', () => {
+    test('accepts IANA zones and rejects unknown ones', () => {
+        expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+        expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, test } from 'bun:test';
+import { canonicalJson, getRequestHash } from '../src/middleware/idempotency.js';
+
+describe('canonicalJson', () => {
+    test('sorts object keys at every level', () => {
+        expect(canonicalJson({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: null } }))
+            .toBe('{"a":{"c":null,"d":[2,{"e":4,"f":3}]},"b":1}');
+    });
+
+    test('keeps array order', () => {
+        expect(canonicalJson([3, 1, 2])).toBe('[3,1,2]');
+    });
+
+    test('encodes a missing body as null', () => {
+        expect(canonicalJson(undefined)).toBe('null');
+    });
+});
+
+describe('getRequestHash', () => {
+    const request = { method: 'POST', baseUrl: '/api/podcast', path: '/generate/async', body: { noteId: 'n1', duration: 'short' } };
+
+    test('ignores the order of body keys', () => {
+        expect(getRequestHash(request)).toBe(getRequestHash({ ...request, body: { duration: 'short', noteId: 'n1' } }));
+    });
+
+    test('changes with the body', () => {
+        expect(getRequestHash(request)).not.toBe(getRequestHash({ ...request, body: { ...request.body, duration: 'long' } }));
+    });
+
+    test('changes with the route and method', () => {
+        expect(getRequestHash(request)).not.toBe(getRequestHash({ ...request, path: '/batches' }));
+        expect(getRequestHash(request)).not.toBe(getRequestHash({ ...request, method: 'PUT' }));
+    });
+});
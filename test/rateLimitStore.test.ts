@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'bun:test';
+import { MemoryRateLimitStore } from '../src/services/rateLimitStore.js';
+
+// 6 requests per minute: one token every 10 seconds
+const config = { limit: 6, windowSeconds: 60 };
+
+describe('MemoryRateLimitStore', () => {
+    test('starts full and allows a burst up to the limit', async () => {
+        const store = new MemoryRateLimitStore();
+        const results = [];
+        for (let i = 0; i < 7; i++) {
+            results.push(await store.take('read:key_a', config, 0));
+        }
+
+        expect(results.map(result => result.allowed)).toEqual([true, true, true, true, true, true, false]);
+        expect(results[5]!.tokens).toBe(0);
+    });
+
+    test('refills in proportion to the time elapsed', async () => {
+        const store = new MemoryRateLimitStore();
+        for (let i = 0; i < 6; i++) {
+            await store.take('read:key_a', config, 0);
+        }
+
+        expect((await store.take('read:key_a', config, 5_000)).allowed).toBe(false);
+        // 10s after the bucket emptied one token is back
+        const refilled = await store.take('read:key_a', config, 10_000);
+        expect(refilled.allowed).toBe(true);
+        expect(refilled.tokens).toBeCloseTo(0);
+    });
+
+    test('never refills past the limit', async () => {
+        const store = new MemoryRateLimitStore();
+        await store.take('read:key_a', config, 0);
+
+        const state = await store.take('read:key_a', config, 60 * 60 * 1000);
+        expect(state.tokens).toBe(config.limit - 1);
+    });
+
+    test('keeps a separate bucket per key', async () => {
+        const store = new MemoryRateLimitStore();
+        for (let i = 0; i < 6; i++) {
+            await store.take('read:key_a', config, 0);
+        }
+
+        expect((await store.take('read:key_a', config, 0)).allowed).toBe(false);
+        expect((await store.take('read:key_b', config, 0)).allowed).toBe(true);
+        expect((await store.take('generate:key_a', config, 0)).allowed).toBe(true);
+    });
+
+    test('does not refill when time goes backwards', async () => {
+        const store = new MemoryRateLimitStore();
+        for (let i = 0; i < 6; i++) {
+            await store.take('read:key_a', config, 10_000);
+        }
+
+        expect((await store.take('read:key_a', config, 0)).allowed).toBe(false);
+    });
+});
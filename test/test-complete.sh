@@ -95,7 +95,7 @@ fi
 # Step 3: Verify MongoDB storage
 echo -e "${YELLOW}[3/6] Verifying MongoDB storage...${NC}"
 
-GET_RESPONSE=$(curl -s "$API_URL/api/podcast/$PODCAST_ID")
+GET_RESPONSE=$(curl -s "$API_URL/api/podcast/$PODCAST_ID" -H "x-api-key: $API_KEY")
 
 if echo "$GET_RESPONSE" | grep -q "success.*true"; then
     echo -e "${GREEN}✓ Podcast found in MongoDB${NC}"
@@ -130,7 +130,7 @@ echo ""
 # Step 5: Test retrieval by user
 echo -e "${YELLOW}[5/6] Testing retrieval by user ID...${NC}"
 
-USER_PODCASTS=$(curl -s "$API_URL/api/podcast/user/$TEST_USER_ID")
+USER_PODCASTS=$(curl -s "$API_URL/api/podcast/user/$TEST_USER_ID" -H "x-api-key: $API_KEY")
 
 if echo "$USER_PODCASTS" | grep -q "$PODCAST_ID"; then
     TOTAL=$(echo "$USER_PODCASTS" | grep -o '"total":[0-9]*' | cut -d':' -f2)
@@ -144,7 +144,7 @@ echo ""
 # Step 6: Test retrieval by note
 echo -e "${YELLOW}[6/6] Testing retrieval by note ID...${NC}"
 
-NOTE_PODCASTS=$(curl -s "$API_URL/api/podcast/note/$TEST_NOTE_ID")
+NOTE_PODCASTS=$(curl -s "$API_URL/api/podcast/note/$TEST_NOTE_ID" -H "x-api-key: $API_KEY")
 
 if echo "$NOTE_PODCASTS" | grep -q "$PODCAST_ID"; then
     echo -e "${GREEN}✓ Note podcasts retrieved successfully${NC}"
@@ -177,8 +177,8 @@ echo ""
 echo "You can play this URL in your browser or audio player!"
 echo ""
 echo "To view all podcasts for this user:"
-echo "  curl $API_URL/api/podcast/user/$TEST_USER_ID | jq"
+echo "  curl -H \"x-api-key: $API_KEY\" $API_URL/api/podcast/user/$TEST_USER_ID | jq"
 echo ""
 echo "To view all podcasts for this note:"
-echo "  curl $API_URL/api/podcast/note/$TEST_NOTE_ID | jq"
+echo "  curl -H \"x-api-key: $API_KEY\" $API_URL/api/podcast/note/$TEST_NOTE_ID | jq"
 echo ""
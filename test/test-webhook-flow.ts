@@ -13,6 +13,7 @@
 
 import express from 'express';
 import type { Server } from 'http';
+import { verifyWebhookSignature } from '../src/services/webhookSignature.js';
 
 const API_URL = process.env.PODCAST_API_URL || 'http://localhost:3005/api/podcast';
 const API_KEY = process.env.API_KEYS?.split(',')[0] || 'your-secret-key-1';
@@ -80,38 +81,42 @@ let webhookServer: Server | null = null;
 async function startWebhookServer(): Promise<void> {
     return new Promise((resolve) => {
         const app = express();
-        app.use(express.json());
+        // Keep the raw body: the signature covers the exact bytes sent
+        app.use(express.text({ type: 'application/json' }));
 
         app.post('/webhook', (req, res) => {
-            const receivedSecret = req.headers['x-webhook-secret'];
-
             log('\n' + '='.repeat(60), colors.magenta);
             log('🔔 WEBHOOK RECEIVED!', colors.magenta);
             log('='.repeat(60), colors.magenta);
 
-            // Verify secret
-            if (receivedSecret !== WEBHOOK_SECRET) {
-                logError(`Invalid webhook secret: ${receivedSecret}`);
+            // Verify signature
+            const verification = verifyWebhookSignature(
+                req.body,
+                req.header('x-webhook-signature'),
+                WEBHOOK_SECRET
+            );
+            if (!verification.valid) {
+                logError(`Invalid webhook signature: ${verification.reason}`);
                 res.status(401).json({ error: 'Unauthorized' });
                 return;
             }
 
-            logSuccess('Webhook secret verified');
+            logSuccess('Webhook signature verified');
 
             webhookReceived = true;
-            webhookPayload = req.body;
+            webhookPayload = JSON.parse(req.body);
 
-            log(`Event: ${colors.bright}${req.body.event}${colors.reset}`);
-            log(`Job ID: ${req.body.jobId}`);
-            log(`Note ID: ${req.body.noteId}`);
+            log(`Event: ${colors.bright}${webhookPayload.event}${colors.reset}`);
+            log(`Job ID: ${webhookPayload.jobId}`);
+            log(`Note ID: ${webhookPayload.noteId}`);
 
-            if (req.body.event === 'podcast.completed') {
-                log(`Audio URL: ${req.body.audioUrl}`);
-                log(`Duration: ${req.body.audioDuration}s`);
-                log(`Podcast ID: ${req.body.podcastId}`);
+            if (webhookPayload.event === 'podcast.completed') {
+                log(`Audio URL: ${webhookPayload.audioUrl}`);
+                log(`Duration: ${webhookPayload.audioDuration}s`);
+                log(`Podcast ID: ${webhookPayload.podcastId}`);
                 logSuccess('Podcast generation completed!');
-            } else if (req.body.event === 'podcast.failed') {
-                logError(`Error: ${req.body.error}`);
+            } else if (webhookPayload.event === 'podcast.failed') {
+                logError(`Error: ${webhookPayload.error}`);
             }
 
             log('='.repeat(60) + '\n', colors.magenta);
@@ -168,7 +173,9 @@ async function pollJobStatus(jobId: string): Promise<any> {
     let lastProgress = -1;
 
     while (true) {
-        const response = await fetch(`${API_URL}/jobs/${jobId}`);
+        const response = await fetch(`${API_URL}/jobs/${jobId}`, {
+            headers: { 'x-api-key': API_KEY },
+        });
 
         if (!response.ok) {
             throw new Error('Failed to get job status');
@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'bun:test';
+import { DEFAULT_TOLERANCE_SECONDS, signWebhookPayload, verifyWebhookSignature } from '../src/services/webhookSignature.js';
+
+const body = JSON.stringify({ event: 'podcast.completed', jobId: 'job_1' });
+const timestamp = 1_800_000_000;
+
+describe('verifyWebhookSignature', () => {
+    test('accepts a body signed with the secret', () => {
+        const header = signWebhookPayload(body, ['secret'], timestamp);
+        expect(verifyWebhookSignature(body, header, 'secret', { now: timestamp })).toEqual({ valid: true, timestamp });
+    });
+
+    test('accepts any of several signatures while a secret is rotated', () => {
+        const header = signWebhookPayload(body, ['old-secret', 'new-secret'], timestamp);
+        expect(verifyWebhookSignature(body, header, ['new-secret'], { now: timestamp }).valid).toBe(true);
+        expect(verifyWebhookSignature(body, header, ['old-secret'], { now: timestamp }).valid).toBe(true);
+    });
+
+    test('rejects a modified body or a different secret', () => {
+        const header = signWebhookPayload(body, ['secret'], timestamp);
+        expect(verifyWebhookSignature(`${body} `, header, 'secret', { now: timestamp }))
+            .toEqual({ valid: false, reason: 'invalid_signature' });
+        expect(verifyWebhookSignature(body, header, 'other-secret', { now: timestamp }))
+            .toEqual({ valid: false, reason: 'invalid_signature' });
+    });
+
+    test('rejects signatures outside the tolerance', () => {
+        const header = signWebhookPayload(body, ['secret'], timestamp);
+        expect(verifyWebhookSignature(body, header, 'secret', { now: timestamp + DEFAULT_TOLERANCE_SECONDS }).valid).toBe(true);
+        expect(verifyWebhookSignature(body, header, 'secret', { now: timestamp + DEFAULT_TOLERANCE_SECONDS + 1 }))
+            .toEqual({ valid: false, reason: 'stale_timestamp' });
+        expect(verifyWebhookSignature(body, header, 'secret', { now: timestamp + 60, toleranceSeconds: 30 }))
+            .toEqual({ valid: false, reason: 'stale_timestamp' });
+    });
+
+    test('reports missing and malformed headers', () => {
+        expect(verifyWebhookSignature(body, undefined, 'secret')).toEqual({ valid: false, reason: 'missing_header' });
+        expect(verifyWebhookSignature(body, `t=${timestamp}`, 'secret', { now: timestamp }))
+            .toEqual({ valid: false, reason: 'malformed_header' });
+        expect(verifyWebhookSignature(body, 't=soon,v1=abcd', 'secret', { now: timestamp }))
+            .toEqual({ valid: false, reason: 'malformed_header' });
+    });
+
+    test('ignores signatures of other versions', () => {
+        const header = signWebhookPayload(body, ['secret'], timestamp).replace('v1=', 'v0=');
+        expect(verifyWebhookSignature(body, header, 'secret', { now: timestamp }))
+            .toEqual({ valid: false, reason: 'malformed_header' });
+    });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'bun:test';
+import { isBlockedAddress } from '../src/services/webhookUrl.js';
+
+describe('isBlockedAddress', () => {
+    test.each([
+        '0.0.0.0',
+        '10.1.2.3',
+        '100.64.0.1',
+        '127.0.0.1',
+        '169.254.169.254',
+        '172.16.0.1',
+        '172.31.255.255',
+        '192.168.1.1',
+        '224.0.0.1',
+        '255.255.255.255',
+    ])('blocks IPv4 %s', address => {
+        expect(isBlockedAddress(address)).toBe(true);
+    });
+
+    test.each(['8.8.8.8', '172.32.0.1', '100.128.0.1', '1.1.1.1'])('allows IPv4 %s', address => {
+        expect(isBlockedAddress(address)).toBe(false);
+    });
+
+    test.each([
+        '::',
+        '::1',
+        'fc00::1',
+        'fd12:3456::1',
+        'fe80::1%eth0',
+        'ff02::1',
+        '::ffff:127.0.0.1',
+        '::ffff:a9fe:a9fe',
+        '::10.0.0.1',
+        // NAT64 and 6to4 addresses embedding a private IPv4 address
+        '64:ff9b::169.254.169.254',
+        '64:ff9b::a00:1',
+        '2002:7f00:1::',
+        '2002:c0a8:101::1',
+    ])('blocks IPv6 %s', address => {
+        expect(isBlockedAddress(address)).toBe(true);
+    });
+
+    test.each(['2001:4860:4860::8888', '::ffff:8.8.8.8', '64:ff9b::8.8.8.8', '2002:808:808::1'])('allows IPv6 %s', address => {
+        expect(isBlockedAddress(address)).toBe(false);
+    });
+
+    test('blocks anything that is not an IP address', () => {
+        expect(isBlockedAddress('example.com')).toBe(true);
+    });
+});